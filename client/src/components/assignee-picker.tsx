@@ -0,0 +1,46 @@
+import { UserX } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserAvatar } from "@/components/user-avatar";
+import { useAssignees } from "@/hooks/use-assignees";
+
+// Radix items cannot have an empty value, so "no assignee" gets its own
+const UNASSIGNED = "none";
+
+interface AssigneePickerProps {
+  id?: string;
+  // The list the note is in; outside every list only the user can be picked
+  projectId: number | null;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}
+
+export function AssigneePicker({ id, projectId, value, onChange }: AssigneePickerProps) {
+  const { assignees } = useAssignees(projectId);
+
+  return (
+    <Select
+      value={value === null ? UNASSIGNED : String(value)}
+      onValueChange={(selected) => onChange(selected === UNASSIGNED ? null : Number(selected))}
+    >
+      <SelectTrigger id={id} className="h-11">
+        <SelectValue placeholder="Ninguém" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>
+          <span className="flex items-center space-x-2">
+            <UserX className="w-6 h-6 p-1 text-gray-400" />
+            <span>Ninguém</span>
+          </span>
+        </SelectItem>
+        {assignees.map((assignee) => (
+          <SelectItem key={assignee.id} value={String(assignee.id)}>
+            <span className="flex items-center space-x-2">
+              <UserAvatar user={assignee} />
+              <span>{assignee.name}</span>
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
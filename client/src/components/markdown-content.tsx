@@ -0,0 +1,19 @@
+import { useMemo } from "react";
+import { renderMarkdown } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  source: string;
+  className?: string;
+}
+
+export function MarkdownContent({ source, className }: MarkdownContentProps) {
+  const html = useMemo(() => renderMarkdown(source), [source]);
+
+  return (
+    <div
+      className={cn("prose prose-sm max-w-none text-gray-700", className)}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,43 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { MarkdownContent } from "@/components/markdown-content";
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+}
+
+export function MarkdownEditor({ id, value, onChange, onBlur, placeholder }: MarkdownEditorProps) {
+  return (
+    <Tabs defaultValue="write">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="write">Escrever</TabsTrigger>
+        <TabsTrigger value="preview">Visualizar</TabsTrigger>
+      </TabsList>
+      <TabsContent value="write">
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={placeholder}
+          rows={6}
+          className="font-mono text-sm"
+        />
+        <p className="text-xs text-gray-500 mt-1">Aceita Markdown: **negrito**, _itálico_, listas com "-", [links](https://...)</p>
+      </TabsContent>
+      <TabsContent value="preview">
+        <div className="min-h-[9.5rem] border border-gray-300 rounded-md p-3">
+          {value.trim() ? (
+            <MarkdownContent source={value} />
+          ) : (
+            <p className="text-sm text-gray-400">Nada para visualizar</p>
+          )}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
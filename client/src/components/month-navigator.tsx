@@ -0,0 +1,41 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatMonth, monthOf, shiftMonth } from "@shared/months";
+
+interface MonthNavigatorProps {
+  month: string;
+  onChange: (month: string) => void;
+}
+
+export function MonthNavigator({ month, onChange }: MonthNavigatorProps) {
+  const currentMonth = monthOf(new Date().toISOString());
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Button type="button" variant="ghost" size="icon" onClick={() => onChange(shiftMonth(month, -1))} title="Mês anterior">
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+      <span className="w-40 text-center text-sm font-medium text-gray-900 capitalize">{formatMonth(month)}</span>
+      <Button type="button" variant="ghost" size="icon" onClick={() => onChange(shiftMonth(month, 1))} title="Próximo mês">
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+      <input
+        type="month"
+        value={month}
+        // Clearing the field fires an empty value; keep the current month then
+        onChange={(e) => e.target.value && onChange(e.target.value)}
+        className="border border-gray-300 rounded-md px-2 py-1 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+        aria-label="Ir para o mês"
+      />
+      {month !== currentMonth && (
+        <button
+          type="button"
+          onClick={() => onChange(currentMonth)}
+          className="text-xs text-gray-500 hover:text-gray-700 underline pl-1"
+        >
+          Mês atual
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CalendarArrowUp } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useStatuses } from "@/hooks/use-statuses";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  statusLabel, type MonthCloseMode, type MonthCloseResult, type MonthSummary, type ProjectFilter,
+} from "@shared/schema";
+import { formatMonth, shiftMonth } from "@shared/months";
+
+interface MonthSummaryBarProps {
+  month: string;
+  // Counts and closes only the notes of this list
+  projectId?: ProjectFilter;
+  // Called with the month the open notes went to
+  onClosed: (nextMonth: string) => void;
+}
+
+function Stat({ label, value, className = "text-gray-900" }: { label: string; value: number; className?: string }) {
+  return (
+    <div className="text-center">
+      <div className={`text-lg font-semibold ${className}`}>{value}</div>
+      <div className="text-xs text-gray-500">{label}</div>
+    </div>
+  );
+}
+
+export function MonthSummaryBar({ month, projectId, onClosed }: MonthSummaryBarProps) {
+  const { toast } = useToast();
+  const { statusById } = useStatuses(typeof projectId === "number" ? projectId : undefined);
+
+  // Under /api/notes so every note change refreshes the counts
+  const { data: summary } = useQuery({
+    queryKey: ["/api/notes", "summary", { month, projectId }],
+    queryFn: async (): Promise<MonthSummary> => {
+      const params = new URLSearchParams({ month });
+      if (projectId !== undefined) params.set("projectId", String(projectId));
+      const response = await apiRequest("GET", `/api/notes/summary?${params}`);
+      return response.json();
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (mode: MonthCloseMode): Promise<MonthCloseResult> => {
+      const response = await apiRequest("POST", "/api/notes/close-month", { month, mode, projectId });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      toast({
+        title: "Mês fechado!",
+        description: result.count === 0
+          ? "Não havia anotações em aberto para levar adiante."
+          : `${result.count} ${result.count === 1 ? "anotação" : "anotações"} ${result.mode === "move" ? "movida(s)" : "copiada(s)"} para ${formatMonth(result.month)}.`,
+      });
+      onClosed(result.month);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao fechar o mês",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!summary) {
+    return null;
+  }
+
+  const progress = summary.total > 0 ? Math.round((summary.done / summary.total) * 100) : 0;
+
+  return (
+    <div className="mt-4 p-4 rounded-md bg-surface-50 border border-surface-200">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-6">
+          <Stat label="Total" value={summary.total} />
+          <Stat label="Em aberto" value={summary.open} className="text-amber-600" />
+          <Stat label="Concluídas" value={summary.done} className="text-green-600" />
+          <Stat label="Atrasadas" value={summary.overdue} className={summary.overdue > 0 ? "text-red-600" : "text-gray-900"} />
+          <Stat label="Transferidas" value={summary.carriedOver} className="text-gray-600" />
+        </div>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <button
+              className="px-4 py-2 text-sm font-medium rounded-md transition-colors border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center disabled:opacity-50"
+              disabled={summary.open === 0 || closeMutation.isPending}
+              title="Levar as anotações em aberto para o próximo mês"
+            >
+              <CalendarArrowUp className="w-4 h-4 mr-1" />
+              Fechar mês
+            </button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Fechar {formatMonth(month)}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {summary.open} {summary.open === 1 ? "anotação em aberto vai" : "anotações em aberto vão"} para {formatMonth(shiftMonth(month, 1))}.
+                Mover tira as anotações deste mês; copiar mantém as originais aqui. Cada uma guarda o mês de onde veio.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => closeMutation.mutate("copy")}
+                className="bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+              >
+                Copiar
+              </AlertDialogAction>
+              <AlertDialogAction onClick={() => closeMutation.mutate("move")}>
+                Mover
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {summary.total > 0 && (
+        <div className="mt-3">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>
+              {summary.byStatus
+                .map(({ statusId, count }) => {
+                  const status = statusById.get(statusId);
+                  return `${status ? statusLabel(status) : "—"}: ${count}`;
+                })
+                .join(" · ")}
+            </span>
+            <span>{progress}% concluído</span>
+          </div>
+          <Progress value={progress} className="h-2" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { FileText, Paperclip, X } from "lucide-react";
+import { useMutationErrorToast } from "@/hooks/use-mutation-error-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { attachmentContentTypes, type Note, type NoteAttachment } from "@shared/schema";
+
+interface NoteAttachmentsProps {
+  note: Note;
+  // Viewers of a shared list can open the files but not add or remove them
+  readOnly?: boolean;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(".", ",")} MB`;
+}
+
+// Files sit behind the session like every other note route, so plain links and <img> work
+function attachmentUrl(note: Note, attachment: NoteAttachment) {
+  return `/api/notes/${note.id}/attachments/${attachment.id}`;
+}
+
+export function NoteAttachments({ note, readOnly = false }: NoteAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const attachments = note.attachments;
+
+  const onError = useMutationErrorToast();
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File): Promise<Note> => {
+      const data = new FormData();
+      data.append("file", file);
+      const response = await apiRequest("POST", `/api/notes/${note.id}/attachments`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+    },
+    onError: onError("Erro ao anexar arquivo"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachment: NoteAttachment): Promise<Note> => {
+      const response = await apiRequest("DELETE", attachmentUrl(note, attachment));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+    },
+    onError: onError("Erro ao excluir anexo"),
+  });
+
+  const handleFiles = (files: FileList | null) => {
+    Array.from(files ?? []).forEach((file) => uploadMutation.mutate(file));
+    if (inputRef.current) {
+      inputRef.current.value = "";
+    }
+  };
+
+  if (attachments.length === 0 && readOnly) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 mb-3">
+      {attachments.length > 0 && (
+        <ul className="flex flex-wrap gap-2 mb-2">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="group relative w-24">
+              <a
+                href={attachmentUrl(note, attachment)}
+                download={attachment.fileName}
+                className="block rounded-md border border-gray-200 overflow-hidden hover:border-primary-500"
+                title={`${attachment.fileName} (${formatSize(attachment.size)})`}
+              >
+                {attachment.contentType.startsWith("image/") ? (
+                  <img
+                    src={attachmentUrl(note, attachment)}
+                    alt={attachment.fileName}
+                    loading="lazy"
+                    className="w-24 h-16 object-cover bg-surface-50"
+                  />
+                ) : (
+                  <div className="w-24 h-16 flex items-center justify-center bg-surface-50">
+                    <FileText className="w-6 h-6 text-gray-400" />
+                  </div>
+                )}
+                <div className="px-1 py-0.5 text-[10px] text-gray-600 truncate">{attachment.fileName}</div>
+              </a>
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => deleteMutation.mutate(attachment)}
+                  disabled={deleteMutation.isPending}
+                  className="absolute top-1 right-1 p-0.5 rounded-full bg-white/90 text-gray-500 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Excluir anexo"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {!readOnly && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={attachmentContentTypes.join(",")}
+            onChange={(e) => handleFiles(e.target.files)}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            className="text-xs font-medium text-gray-500 hover:text-primary-500 flex items-center disabled:opacity-50"
+          >
+            <Paperclip className="w-3 h-3 mr-1" />
+            {uploadMutation.isPending ? "Enviando..." : "Anexar arquivo"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CalendarClock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { UserAvatar } from "@/components/user-avatar";
+import { useStatuses } from "@/hooks/use-statuses";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { ifMatch, isVersionConflict } from "@/lib/note-versions";
+import { statusLabel, type Note, type NoteMove, type ProjectFilter } from "@shared/schema";
+
+// Where a dragged card would land: before a card, or at the end of the column when beforeId is null
+type DropTarget = NoteMove;
+
+interface NoteBoardProps {
+  month: string;
+  // Shows only this status column
+  statusId?: number;
+  tagIds: number[];
+  projectId?: ProjectFilter;
+  // Only the notes assigned to the user
+  assignedToMe?: boolean;
+  onEdit: (note: Note) => void;
+}
+
+interface BoardCardProps {
+  note: Note;
+  isDropTarget: boolean;
+  onEdit: (note: Note) => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDrop: (e: React.DragEvent) => void;
+}
+
+function BoardCard({ note, isDropTarget, onEdit, onDragOver, onDrop }: BoardCardProps) {
+  const isOverdue = note.dueDate !== null && note.status.code !== "done" && note.dueDate < new Date().toISOString().split('T')[0];
+
+  return (
+    <button
+      type="button"
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", String(note.id));
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+      onClick={() => onEdit(note)}
+      className={`w-full text-left p-2 rounded-md bg-white border border-gray-200 hover:border-gray-300 cursor-grab transition-shadow ${
+        isDropTarget ? "border-t-2 border-t-primary-500" : ""
+      }`}
+    >
+      <div className={`text-sm font-medium ${note.status.code === "done" ? "line-through text-gray-400" : "text-gray-900"}`}>
+        {note.title}
+      </div>
+      {note.dueDate && (
+        <div className={`mt-1 text-xs flex items-center ${isOverdue ? "text-red-600" : "text-gray-500"}`}>
+          <CalendarClock className="w-3 h-3 mr-1" />
+          {new Date(`${note.dueDate}T00:00:00`).toLocaleDateString('pt-BR')}
+        </div>
+      )}
+      {note.assignee && (
+        <div className="mt-1 flex items-center text-xs text-gray-500">
+          <UserAvatar user={note.assignee} className="h-4 w-4 mr-1" />
+          {note.assignee.name}
+        </div>
+      )}
+      {note.tags.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {note.tags.map((tag) => (
+            <span key={tag.id} className="px-1.5 py-0.5 text-[10px] font-medium rounded-full text-white" style={{ backgroundColor: tag.color }}>
+              {tag.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </button>
+  );
+}
+
+export function NoteBoard({ month, statusId, tagIds, projectId, assignedToMe = false, onEdit }: NoteBoardProps) {
+  const { toast } = useToast();
+  // A shared list shows the columns of whoever created it
+  const { statuses } = useStatuses(typeof projectId === "number" ? projectId : undefined);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  // Under /api/notes so edits made in the form show up on the board
+  const { data: notes = [], isLoading } = useQuery({
+    queryKey: ["/api/notes", "board", { month, tagIds, projectId, assignedToMe }],
+    queryFn: async (): Promise<Note[]> => {
+      const params = new URLSearchParams({ month });
+      if (tagIds.length > 0) params.set("tagIds", tagIds.join(","));
+      if (projectId !== undefined) params.set("projectId", String(projectId));
+      if (assignedToMe) params.set("assignee", "me");
+      const response = await apiRequest("GET", `/api/notes/board?${params}`);
+      return response.json();
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ note, move }: { note: Note; move: NoteMove }): Promise<Note> => {
+      const response = await apiRequest("POST", `/api/notes/${note.id}/move`, move, ifMatch(note));
+      return response.json();
+    },
+    onSuccess: (moved, { note }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      if (moved.status.code === "done" && note.status.code !== "done") {
+        toast({
+          title: "Tarefa concluída!",
+          description: "A tarefa foi marcada como concluída.",
+        });
+      }
+    },
+    onError: (error: any) => {
+      if (isVersionConflict(error)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+        toast({
+          title: "Anotação alterada em outra sessão",
+          description: "O quadro foi atualizado. Tente novamente.",
+          variant: "destructive",
+        });
+        return;
+      }
+      // 409: the column changed in another session, so the local order is stale
+      if (error instanceof ApiError && error.status === 409) {
+        queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      }
+      toast({
+        title: "Erro ao mover anotação",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The "atribuídas a mim" board spans lists with other workflows; their notes show in the first column of the same kind
+  const columnOf = (note: Note) => statuses.some((status) => status.id === note.statusId)
+    ? note.statusId
+    : statuses.find((status) => status.code === note.status.code)?.id;
+  const columns = statuses
+    .filter((status) => !statusId || status.id === statusId)
+    .map((status) => ({ status, notes: notes.filter((note) => columnOf(note) === status.id) }));
+
+  const handleDragOver = (e: React.DragEvent, target: DropTarget) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(target);
+  };
+
+  const handleDrop = (e: React.DragEvent, move: DropTarget) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    const note = notes.find((item) => item.id === Number(e.dataTransfer.getData("text/plain")));
+    if (!note || note.id === move.beforeId) {
+      return;
+    }
+    // Dropping a card where it already is changes nothing
+    const column = notes.filter((item) => item.statusId === move.statusId);
+    const nextId = column[column.findIndex((item) => item.id === note.id) + 1]?.id ?? null;
+    if (note.statusId === move.statusId && nextId === move.beforeId) {
+      return;
+    }
+    moveMutation.mutate({ note, move });
+  };
+
+  return (
+    <div className={`p-4 ${isLoading || moveMutation.isPending ? "opacity-60" : ""}`}>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {columns.map(({ status, notes: columnNotes }) => (
+          <div
+            key={status.id}
+            onDragOver={(e) => handleDragOver(e, { statusId: status.id, beforeId: null })}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, { statusId: status.id, beforeId: null })}
+            className={`flex-1 min-w-56 rounded-md p-2 transition-colors ${
+              dropTarget?.statusId === status.id ? "bg-primary-50" : "bg-surface-50"
+            }`}
+          >
+            <div className="flex items-center justify-between mb-2 px-1">
+              <span className="flex items-center text-sm font-medium text-gray-700">
+                <span className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: status.color }} />
+                {statusLabel(status)}
+              </span>
+              <span className="text-xs text-gray-500">{columnNotes.length}</span>
+            </div>
+            <div className="space-y-2 min-h-16">
+              {columnNotes.map((note) => (
+                <BoardCard
+                  key={note.id}
+                  note={note}
+                  isDropTarget={dropTarget?.beforeId === note.id}
+                  onEdit={onEdit}
+                  onDragOver={(e) => handleDragOver(e, { statusId: status.id, beforeId: note.id })}
+                  onDrop={(e) => handleDrop(e, { statusId: status.id, beforeId: note.id })}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Arraste uma anotação para outra coluna para mudar o status, ou dentro da coluna para mudar a ordem.
+      </p>
+    </div>
+  );
+}
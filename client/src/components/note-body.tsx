@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { MarkdownContent } from "@/components/markdown-content";
+
+// Bodies longer than this start collapsed to a short excerpt
+const EXCERPT_MAX_CHARS = 200;
+const EXCERPT_MAX_LINES = 3;
+
+interface NoteBodyProps {
+  body: string;
+}
+
+export function NoteBody({ body }: NoteBodyProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!body.trim()) {
+    return null;
+  }
+
+  const lines = body.split("\n");
+  const isLong = body.length > EXCERPT_MAX_CHARS || lines.length > EXCERPT_MAX_LINES;
+  if (!isLong) {
+    return <MarkdownContent source={body} className="mt-2" />;
+  }
+
+  const excerpt = lines.slice(0, EXCERPT_MAX_LINES).join("\n").slice(0, EXCERPT_MAX_CHARS).trimEnd() + "…";
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-2">
+      {!open && <MarkdownContent source={excerpt} />}
+      <CollapsibleContent>
+        <MarkdownContent source={body} />
+      </CollapsibleContent>
+      <CollapsibleTrigger className="mt-1 text-xs font-medium text-primary-500 hover:text-primary-600 flex items-center">
+        {open ? (
+          <>
+            <ChevronUp className="w-3 h-3 mr-1" />
+            Mostrar menos
+          </>
+        ) : (
+          <>
+            <ChevronDown className="w-3 h-3 mr-1" />
+            Mostrar mais
+          </>
+        )}
+      </CollapsibleTrigger>
+    </Collapsible>
+  );
+}
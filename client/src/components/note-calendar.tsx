@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { eachDayOfInterval, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from "date-fns";
+import { Plus } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useStatuses } from "@/hooks/use-statuses";
+import { apiRequest } from "@/lib/queryClient";
+import { weekdayLabels } from "@shared/recurrence";
+import type { Note, NotePage, ProjectFilter } from "@shared/schema";
+
+// Notes shown in a day cell before the rest collapse into "+N"
+const NOTES_PER_DAY = 3;
+const CALENDAR_PAGE_SIZE = 100;
+
+// Where the calendar places a note; rescheduling sets the due date
+function scheduledDateOf(note: Note) {
+  return note.dueDate ?? note.createdDate;
+}
+
+interface NoteCalendarProps {
+  month: string;
+  statusId?: number;
+  tagIds: number[];
+  projectId?: ProjectFilter;
+  // Only the notes assigned to the user
+  assignedToMe?: boolean;
+  onCreate: (date: string) => void;
+  onEdit: (note: Note) => void;
+  onReschedule: (note: Note, date: string) => void;
+}
+
+interface CalendarNoteProps {
+  note: Note;
+  onEdit: (note: Note) => void;
+}
+
+function CalendarNote({ note, onEdit }: CalendarNoteProps) {
+  const { statusById } = useStatuses(note.projectId ?? undefined);
+  const color = statusById.get(note.statusId)?.color ?? "#9ca3af";
+  const isDone = note.status.code === "done";
+
+  return (
+    <button
+      type="button"
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", String(note.id));
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onEdit(note);
+      }}
+      className={`w-full text-left truncate px-1.5 py-0.5 rounded text-xs border-l-2 bg-white hover:bg-surface-50 cursor-grab ${
+        isDone ? "line-through text-gray-400" : "text-gray-800"
+      }`}
+      style={{ borderLeftColor: color }}
+      title={`${note.title} · ${note.status.label}`}
+    >
+      {note.title}
+    </button>
+  );
+}
+
+export function NoteCalendar({ month, statusId, tagIds, projectId, assignedToMe = false, onCreate, onEdit, onReschedule }: NoteCalendarProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Whole weeks, so the first and last rows show days of the neighbouring months
+  const firstDay = startOfMonth(new Date(`${month}-01T00:00:00`));
+  const days = eachDayOfInterval({ start: startOfWeek(firstDay), end: endOfWeek(endOfMonth(firstDay)) })
+    .map((day) => format(day, "yyyy-MM-dd"));
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  // Every note of the visible weeks, following the cursor until the last page
+  const { data: notes = [], isLoading } = useQuery({
+    queryKey: ["/api/notes", "calendar", { month, statusId, tagIds, projectId, assignedToMe }],
+    queryFn: async (): Promise<Note[]> => {
+      const notes: Note[] = [];
+      let after: string | null = null;
+      do {
+        const params = new URLSearchParams({
+          limit: String(CALENDAR_PAGE_SIZE),
+          sort: "priority",
+          order: "desc",
+          scheduledFrom: days[0],
+          scheduledTo: days[days.length - 1],
+        });
+        if (statusId) params.set("statusId", String(statusId));
+        if (tagIds.length > 0) params.set("tagIds", tagIds.join(","));
+        if (projectId !== undefined) params.set("projectId", String(projectId));
+        if (assignedToMe) params.set("assignee", "me");
+        if (after) params.set("after", after);
+        const response = await apiRequest("GET", `/api/notes?${params}`);
+        const page: NotePage = await response.json();
+        notes.push(...page.items);
+        after = page.nextCursor;
+      } while (after);
+      return notes;
+    },
+  });
+
+  const notesByDay = new Map<string, Note[]>();
+  notes.forEach((note) => {
+    const day = scheduledDateOf(note);
+    notesByDay.set(day, [...(notesByDay.get(day) ?? []), note]);
+  });
+
+  const handleDrop = (e: React.DragEvent, day: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const note = notes.find((item) => item.id === Number(e.dataTransfer.getData("text/plain")));
+    if (note && scheduledDateOf(note) !== day) {
+      onReschedule(note, day);
+    }
+  };
+
+  return (
+    <div className={`p-4 ${isLoading ? "opacity-60" : ""}`}>
+      <div className="grid grid-cols-7 gap-px text-center text-xs font-medium text-gray-500 mb-1">
+        {weekdayLabels.map((label) => (
+          <div key={label}>{label}</div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-px bg-surface-200 border border-surface-200 rounded-md overflow-hidden">
+        {days.map((day) => {
+          const dayNotes = notesByDay.get(day) ?? [];
+          const hidden = dayNotes.length - NOTES_PER_DAY;
+          return (
+            <div
+              key={day}
+              onClick={() => onCreate(day)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(day);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === day ? null : current))}
+              onDrop={(e) => handleDrop(e, day)}
+              className={`group min-h-24 p-1 space-y-0.5 cursor-pointer transition-colors ${
+                dropTarget === day ? "bg-primary-50" : day.startsWith(month) ? "bg-white" : "bg-surface-50"
+              }`}
+              title="Clique para criar uma anotação neste dia"
+            >
+              <div className="flex items-center justify-between">
+                <span
+                  className={`text-xs px-1 rounded ${
+                    day === today
+                      ? "bg-primary-500 text-white font-medium"
+                      : day.startsWith(month) ? "text-gray-700" : "text-gray-400"
+                  }`}
+                >
+                  {Number(day.slice(8))}
+                </span>
+                <Plus className="w-3 h-3 text-gray-400 opacity-0 group-hover:opacity-100" />
+              </div>
+              {dayNotes.slice(0, NOTES_PER_DAY).map((note) => (
+                <CalendarNote key={note.id} note={note} onEdit={onEdit} />
+              ))}
+              {hidden > 0 && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-xs text-gray-500 hover:text-gray-700 px-1"
+                    >
+                      +{hidden} {hidden === 1 ? "outra" : "outras"}
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-56 p-2 space-y-0.5" onClick={(e) => e.stopPropagation()}>
+                    <p className="text-xs font-medium text-gray-500 mb-1">
+                      {new Date(`${day}T00:00:00`).toLocaleDateString('pt-BR')}
+                    </p>
+                    {dayNotes.map((note) => (
+                      <CalendarNote key={note.id} note={note} onEdit={onEdit} />
+                    ))}
+                  </PopoverContent>
+                </Popover>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        As anotações aparecem no dia do vencimento (ou na data da anotação, quando não vencem). Arraste uma anotação para outro dia para mudar o vencimento.
+      </p>
+    </div>
+  );
+}
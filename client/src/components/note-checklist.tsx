@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, ListChecks, Plus, X } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useMutationErrorToast } from "@/hooks/use-mutation-error-toast";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import type { InsertNoteItem, Note, NoteItem } from "@shared/schema";
+
+interface NoteChecklistProps {
+  note: Note;
+  // Viewers of a shared list see the items without changing them
+  readOnly?: boolean;
+}
+
+// Every checklist endpoint answers with the whole note, which may have just been completed
+export function NoteChecklist({ note, readOnly = false }: NoteChecklistProps) {
+  const { toast } = useToast();
+  const showError = useMutationErrorToast();
+  const [adding, setAdding] = useState(false);
+  const [newText, setNewText] = useState("");
+  const items = note.items;
+  const doneCount = items.filter((item) => item.done).length;
+
+  const onSuccess = (updated: Note) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+    if (updated.status.code === "done" && note.status.code !== "done") {
+      toast({
+        title: "Tarefa concluída!",
+        description: "Todos os itens da lista foram marcados.",
+      });
+    }
+  };
+
+  const onError = (title: string) => (error: any) => {
+    // 409: the items changed in another session, so the local order is stale
+    if (error instanceof ApiError && error.status === 409) {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+    }
+    showError(title)(error);
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (text: string): Promise<Note> => {
+      const response = await apiRequest("POST", `/api/notes/${note.id}/items`, { text });
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      setNewText("");
+      onSuccess(updated);
+    },
+    onError: onError("Erro ao adicionar item"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ item, data }: { item: NoteItem; data: Partial<InsertNoteItem> }): Promise<Note> => {
+      const response = await apiRequest("PUT", `/api/notes/${note.id}/items/${item.id}`, data);
+      return response.json();
+    },
+    onSuccess,
+    onError: onError("Erro ao atualizar item"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (itemIds: number[]): Promise<Note> => {
+      const response = await apiRequest("POST", `/api/notes/${note.id}/items/reorder`, { itemIds });
+      return response.json();
+    },
+    onSuccess,
+    onError: onError("Erro ao reordenar itens"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (item: NoteItem): Promise<Note> => {
+      const response = await apiRequest("DELETE", `/api/notes/${note.id}/items/${item.id}`);
+      return response.json();
+    },
+    onSuccess,
+    onError: onError("Erro ao excluir item"),
+  });
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const itemIds = items.map((item) => item.id);
+    [itemIds[index], itemIds[index + offset]] = [itemIds[index + offset], itemIds[index]];
+    reorderMutation.mutate(itemIds);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newText.trim()) return;
+    addMutation.mutate(newText.trim());
+  };
+
+  if (items.length === 0 && readOnly) {
+    return null;
+  }
+
+  if (items.length === 0 && !adding) {
+    return (
+      <button
+        type="button"
+        onClick={() => setAdding(true)}
+        className="mt-2 mb-2 text-xs font-medium text-gray-500 hover:text-primary-500 flex items-center"
+      >
+        <ListChecks className="w-3 h-3 mr-1" />
+        Adicionar checklist
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 mb-3">
+      {items.length > 0 && (
+        <>
+          <div className="flex items-center space-x-2 mb-2">
+            <Progress value={(doneCount / items.length) * 100} className="h-2 flex-1" />
+            <span className="text-xs text-gray-500 whitespace-nowrap">{doneCount}/{items.length}</span>
+          </div>
+          <ul className="space-y-1">
+            {items.map((item, index) => (
+              <li key={item.id} className="group flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={item.done}
+                  onCheckedChange={(checked) => updateMutation.mutate({ item, data: { done: checked === true } })}
+                  disabled={readOnly || updateMutation.isPending}
+                />
+                <span className={`flex-1 ${item.done ? "line-through text-gray-400" : "text-gray-700"}`}>{item.text}</span>
+                {!readOnly && (
+                  <span className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0 || reorderMutation.isPending}
+                      className="text-gray-400 hover:text-primary-500 disabled:opacity-30"
+                      title="Mover para cima"
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === items.length - 1 || reorderMutation.isPending}
+                      className="text-gray-400 hover:text-primary-500 disabled:opacity-30"
+                      title="Mover para baixo"
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteMutation.mutate(item)}
+                      className="text-gray-400 hover:text-red-500"
+                      title="Excluir item"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {!readOnly && (
+        <form onSubmit={handleAdd} className="flex items-center space-x-2 mt-2">
+          <Input
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && items.length === 0 && setAdding(false)}
+            placeholder="Novo item"
+            className="h-8 text-sm"
+            autoFocus={items.length === 0}
+          />
+          <button
+            type="submit"
+            disabled={addMutation.isPending || !newText.trim()}
+            className="text-gray-400 hover:text-primary-500 disabled:opacity-30"
+            title="Adicionar item"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
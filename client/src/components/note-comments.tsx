@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Edit, Send, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useMutationErrorToast } from "@/hooks/use-mutation-error-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { NoteComment } from "@shared/schema";
+
+interface NoteCommentsProps {
+  noteId: number;
+  // Only the author can edit or delete a comment
+  currentUserId?: number;
+  // Viewers of a shared list read the thread without writing to it
+  readOnly?: boolean;
+}
+
+function timeAgo(date: Date | string) {
+  return formatDistanceToNow(new Date(date), { addSuffix: true, locale: ptBR });
+}
+
+export function NoteComments({ noteId, currentUserId, readOnly = false }: NoteCommentsProps) {
+  const [newBody, setNewBody] = useState("");
+  const [editing, setEditing] = useState<{ id: number; body: string } | null>(null);
+
+  const { data: comments = [], isLoading } = useQuery<NoteComment[]>({
+    queryKey: ["/api/notes", noteId, "comments"],
+  });
+
+  // Refreshes the thread and the count on the note card
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+  };
+
+  const onError = useMutationErrorToast();
+
+  const addMutation = useMutation({
+    mutationFn: async (body: string): Promise<NoteComment> => {
+      const response = await apiRequest("POST", `/api/notes/${noteId}/comments`, { body });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewBody("");
+      onSuccess();
+    },
+    onError: onError("Erro ao comentar"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: number; body: string }): Promise<NoteComment> => {
+      const response = await apiRequest("PUT", `/api/notes/${noteId}/comments/${id}`, { body });
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditing(null);
+      onSuccess();
+    },
+    onError: onError("Erro ao editar comentário"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/notes/${noteId}/comments/${id}`);
+    },
+    onSuccess,
+    onError: onError("Erro ao excluir comentário"),
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBody.trim()) return;
+    addMutation.mutate(newBody.trim());
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Carregando comentários...</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {comments.length === 0 && (
+        <p className="text-sm text-gray-500">Nenhum comentário ainda. Registre aqui o andamento da tarefa.</p>
+      )}
+      <ol className="space-y-3">
+        {comments.map((comment) => (
+          <li key={comment.id} className="group border-l-2 border-surface-200 pl-3">
+            <div className="flex items-center justify-between">
+              <div className="text-xs">
+                <span className="font-medium text-gray-900">{comment.author.name}</span>
+                <span className="text-gray-500" title={new Date(comment.createdAt).toLocaleString('pt-BR')}>
+                  {" "}· {timeAgo(comment.createdAt)}
+                  {comment.editedAt && ` · editado ${timeAgo(comment.editedAt)}`}
+                </span>
+              </div>
+              {!readOnly && comment.userId === currentUserId && editing?.id !== comment.id && (
+                <span className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    type="button"
+                    onClick={() => setEditing({ id: comment.id, body: comment.body })}
+                    className="text-gray-400 hover:text-primary-500"
+                    title="Editar comentário"
+                  >
+                    <Edit className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteMutation.mutate(comment.id)}
+                    disabled={deleteMutation.isPending}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Excluir comentário"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              )}
+            </div>
+            {editing?.id === comment.id ? (
+              <div className="mt-1 space-y-2">
+                <Textarea
+                  value={editing.body}
+                  onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+                  onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                  rows={2}
+                  className="text-sm"
+                  autoFocus
+                />
+                <div className="flex space-x-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ id: comment.id, body: editing.body.trim() })}
+                    disabled={updateMutation.isPending || !editing.body.trim()}
+                  >
+                    Salvar
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setEditing(null)}>
+                    Cancelar
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="mt-0.5 text-sm text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+      {!readOnly && (
+        <form onSubmit={handleAdd} className="flex items-end space-x-2">
+          <Textarea
+            value={newBody}
+            onChange={(e) => setNewBody(e.target.value)}
+            onKeyDown={(e) => {
+              // Ctrl/Cmd+Enter sends, like most chat boxes
+              if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) handleAdd(e);
+            }}
+            placeholder="Escreva um comentário..."
+            rows={2}
+            className="text-sm"
+          />
+          <button
+            type="submit"
+            disabled={addMutation.isPending || !newBody.trim()}
+            className="p-2 text-gray-400 hover:text-primary-500 disabled:opacity-30"
+            title="Comentar"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { useStatuses } from "@/hooks/use-statuses";
+import { useTags } from "@/hooks/use-tags";
+import { useProjects } from "@/hooks/use-projects";
+import { useAssignees } from "@/hooks/use-assignees";
+import { noteFieldLabels, formatNoteFieldValue } from "@/lib/note-fields";
+import type { InsertNote, Note } from "@shared/schema";
+
+export interface NoteConflict {
+  // The note as it was when editing started
+  base: Note;
+  mine: Partial<InsertNote>;
+  server: Note;
+}
+
+type Side = "mine" | "server";
+
+// Notes carry their tags while the form sends tag ids
+function valueOf(note: Note, field: keyof InsertNote): unknown {
+  return field === "tagIds" ? note.tags.map((tag) => tag.id) : note[field];
+}
+
+// Tag ids arrive as arrays, so compare by content
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+interface NoteConflictDialogProps {
+  conflict: NoteConflict | null;
+  // Called with the values to save on top of the server version, or null to keep the server copy
+  onResolve: (data: Partial<InsertNote> | null) => void;
+}
+
+export function NoteConflictDialog({ conflict, onResolve }: NoteConflictDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<keyof InsertNote, Side>>>({});
+  const { statusById } = useStatuses(conflict?.server.projectId ?? undefined);
+  const { tagById } = useTags();
+  const { projectById } = useProjects();
+  const { assigneeById } = useAssignees(conflict?.server.projectId);
+
+  const conflictingFields = conflict
+    ? (Object.keys(conflict.mine) as (keyof InsertNote)[]).filter(
+        (field) => !sameValue(conflict.mine[field], valueOf(conflict.server, field))
+      )
+    : [];
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  if (!conflict) {
+    return null;
+  }
+
+  // Fields only the other session touched default to its value, everything else to mine
+  const choiceFor = (field: keyof InsertNote): Side =>
+    choices[field] ?? (sameValue(conflict.mine[field], valueOf(conflict.base, field)) ? "server" : "mine");
+
+  const merged = () => {
+    const data: Partial<InsertNote> = {};
+    conflictingFields.forEach((field) => {
+      if (choiceFor(field) === "mine") {
+        Object.assign(data, { [field]: conflict.mine[field] });
+      }
+    });
+    return data;
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onResolve(null)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Conflito de edição</DialogTitle>
+          <DialogDescription>
+            Esta anotação foi alterada em outra aba ou dispositivo enquanto você editava.
+            Escolha qual versão manter para cada campo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {conflictingFields.map((field) => (
+            <div key={field}>
+              <div className="text-sm font-medium text-gray-900 mb-2">{noteFieldLabels[field] ?? field}</div>
+              <RadioGroup
+                value={choiceFor(field)}
+                onValueChange={(value) => setChoices({ ...choices, [field]: value as Side })}
+                className="grid grid-cols-2 gap-2"
+              >
+                <Label className="flex items-center space-x-2 border border-gray-300 rounded-md p-2 cursor-pointer font-normal">
+                  <RadioGroupItem value="mine" />
+                  <span>
+                    <span className="block text-xs text-gray-500">Minha versão</span>
+                    {formatNoteFieldValue(field, conflict.mine[field], statusById, tagById, projectById, assigneeById)}
+                  </span>
+                </Label>
+                <Label className="flex items-center space-x-2 border border-gray-300 rounded-md p-2 cursor-pointer font-normal">
+                  <RadioGroupItem value="server" />
+                  <span>
+                    <span className="block text-xs text-gray-500">Versão salva</span>
+                    {formatNoteFieldValue(field, valueOf(conflict.server, field), statusById, tagById, projectById, assigneeById)}
+                  </span>
+                </Label>
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={() => onResolve(null)}>
+            Usar a versão salva
+          </Button>
+          <Button type="button" variant="outline" onClick={() => onResolve(conflict.mine)}>
+            Manter a minha
+          </Button>
+          <Button type="button" onClick={() => onResolve(merged())}>
+            Mesclar selecionados
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
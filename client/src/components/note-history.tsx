@@ -0,0 +1,102 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useStatuses } from "@/hooks/use-statuses";
+import { useProjects } from "@/hooks/use-projects";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { noteFieldLabels, formatNoteFieldValue } from "@/lib/note-fields";
+import type { NoteRevision, NoteRevisionWithChanges } from "@shared/schema";
+
+const operationLabels: Record<NoteRevision["operation"], string> = {
+  create: "Criada",
+  update: "Editada",
+  delete: "Excluída",
+  restore: "Restaurada",
+};
+
+interface NoteHistoryProps {
+  noteId: number;
+  // Status names come from the workflow of the note's list
+  projectId: number | null;
+}
+
+export function NoteHistory({ noteId, projectId }: NoteHistoryProps) {
+  const { toast } = useToast();
+  const { statusById } = useStatuses(projectId ?? undefined);
+  const { projectById } = useProjects();
+
+  const { data: revisions = [], isLoading } = useQuery<NoteRevisionWithChanges[]>({
+    queryKey: ["/api/notes", noteId, "revisions"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest("POST", `/api/notes/${noteId}/revisions/${revisionId}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      toast({
+        title: "Revisão restaurada!",
+        description: "A anotação voltou à versão selecionada.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao restaurar revisão",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Carregando histórico...</div>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {revisions.map((revision, index) => (
+        <li key={revision.id} className="border-l-2 border-surface-200 pl-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <span className="font-medium text-gray-900">{operationLabels[revision.operation]}</span>
+              <span className="text-gray-500">
+                {" "}· {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true, locale: ptBR })}
+              </span>
+            </div>
+            {index > 0 && revision.operation !== "delete" && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => restoreMutation.mutate(revision.id)}
+                disabled={restoreMutation.isPending}
+                title="Restaurar esta versão"
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restaurar
+              </Button>
+            )}
+          </div>
+          {revision.changes.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+              {revision.changes.map((change) => (
+                <li key={change.field}>
+                  <span className="text-gray-500">{noteFieldLabels[change.field] ?? change.field}:</span>{" "}
+                  {revision.operation !== "create" && (
+                    <><span className="line-through text-red-600">{formatNoteFieldValue(change.field, change.from, statusById, undefined, projectById)}</span> → </>
+                  )}
+                  <span className="text-success-600">{formatNoteFieldValue(change.field, change.to, statusById, undefined, projectById)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useDebounce } from "@/hooks/use-debounce";
+import { apiRequest } from "@/lib/queryClient";
+import type { HighlightSegment, Note, NoteSearchResult } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface NoteSearchProps {
+  onSelect: (note: Note) => void;
+}
+
+function Snippet({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-amber-100 text-gray-900 rounded-sm px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function NoteSearch({ onSelect }: NoteSearchProps) {
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebounce(query.trim(), SEARCH_DEBOUNCE_MS);
+
+  // Keyed under /api/notes so note mutations also refresh open search results
+  const { data: results = [], isFetching } = useQuery<NoteSearchResult[]>({
+    queryKey: ["/api/notes", "search", debouncedQuery],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedQuery });
+      const response = await apiRequest("GET", `/api/notes/search?${params}`);
+      return response.json();
+    },
+    enabled: debouncedQuery.length > 0,
+  });
+
+  const handleSelect = (note: Note) => {
+    setQuery("");
+    onSelect(note);
+  };
+
+  return (
+    <div className="relative w-full max-w-sm">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+      <Input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && setQuery("")}
+        placeholder="Buscar anotações..."
+        className="pl-9 pr-9"
+        aria-label="Buscar anotações"
+      />
+      {query && (
+        <button
+          type="button"
+          onClick={() => setQuery("")}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+          title="Limpar busca"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+
+      {debouncedQuery && query.trim() && (
+        <div className="absolute z-20 mt-2 w-full bg-white rounded-md material-shadow border border-surface-200 max-h-80 overflow-y-auto">
+          {results.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500 text-center">
+              {isFetching ? "Buscando..." : "Nenhuma anotação encontrada"}
+            </div>
+          ) : (
+            results.map(({ note, snippet, bodySnippet }) => (
+              <button
+                key={note.id}
+                type="button"
+                onClick={() => handleSelect(note)}
+                className="w-full text-left px-4 py-3 hover:bg-surface-50 border-b border-surface-200 last:border-b-0"
+              >
+                <div className="text-sm text-gray-900"><Snippet segments={snippet} /></div>
+                {bodySnippet.length > 0 && (
+                  <div className="text-xs text-gray-600 mt-1 line-clamp-2"><Snippet segments={bodySnippet} /></div>
+                )}
+                <div className="text-xs text-gray-500 mt-1">
+                  {note.status.label} · {new Date(note.createdDate).toLocaleDateString('pt-BR')}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
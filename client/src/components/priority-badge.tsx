@@ -0,0 +1,23 @@
+import { ChevronDown, ChevronsUp, ChevronUp, Equal } from "lucide-react";
+import { priorityLabels, type NotePriority } from "@shared/schema";
+
+const priorityStyles: Record<NotePriority, { icon: typeof Equal; className: string }> = {
+  low: { icon: ChevronDown, className: "text-gray-500 bg-gray-100" },
+  medium: { icon: Equal, className: "text-blue-700 bg-blue-50" },
+  high: { icon: ChevronUp, className: "text-orange-700 bg-orange-50" },
+  urgent: { icon: ChevronsUp, className: "text-red-700 bg-red-50" },
+};
+
+interface PriorityBadgeProps {
+  priority: NotePriority;
+}
+
+export function PriorityBadge({ priority }: PriorityBadgeProps) {
+  const { icon: Icon, className } = priorityStyles[priority];
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${className}`} title="Prioridade">
+      <Icon className="w-3 h-3 mr-0.5" />
+      {priorityLabels[priority]}
+    </span>
+  );
+}
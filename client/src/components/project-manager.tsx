@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Settings2, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SidebarGroupAction } from "@/components/ui/sidebar";
+import { useMutationErrorToast } from "@/hooks/use-mutation-error-toast";
+import { useProjects } from "@/hooks/use-projects";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { nextTagColor } from "@/lib/tag-colors";
+import type { InsertProject, Project } from "@shared/schema";
+
+interface ProjectRowProps {
+  project: Project;
+  onUpdate: (project: Project, data: Partial<InsertProject>) => void;
+  onDelete: (project: Project) => void;
+}
+
+function ProjectRow({ project, onUpdate, onDelete }: ProjectRowProps) {
+  const [name, setName] = useState(project.name);
+  const [color, setColor] = useState(project.color);
+
+  useEffect(() => {
+    setName(project.name);
+    setColor(project.color);
+  }, [project.name, project.color]);
+
+  // Lists always need a name; clearing it puts the old one back
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(project.name);
+    } else if (trimmed !== project.name) {
+      onUpdate(project, { name: trimmed });
+    }
+  };
+
+  return (
+    <li className="flex items-center space-x-2">
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        // The picker fires change events while dragging; save once it closes
+        onBlur={() => color !== project.color && onUpdate(project, { color })}
+        className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+        title="Cor"
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={(e) => e.key === "Enter" && saveName()}
+        className="flex-1"
+      />
+      <Button type="button" variant="ghost" size="icon" onClick={() => onDelete(project)} title="Excluir">
+        <Trash2 className="w-4 h-4 text-red-500" />
+      </Button>
+    </li>
+  );
+}
+
+interface ProjectManagerProps {
+  currentUserId: number;
+}
+
+// Renames and deletes only the lists the user created; shared ones are managed by whoever created them
+export function ProjectManager({ currentUserId }: ProjectManagerProps) {
+  const projects = useProjects().projects.filter((project) => project.userId === currentUserId);
+  const [newName, setNewName] = useState("");
+
+  const onError = useMutationErrorToast();
+
+  // Deleting a list takes its notes out of it, so they are refetched too
+  const invalidateProjects = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertProject) => {
+      const response = await apiRequest("POST", "/api/projects", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
+    onError: onError("Erro ao criar lista"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<InsertProject> }) => {
+      await apiRequest("PUT", `/api/projects/${id}`, data);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["/api/projects"] }),
+    onError: onError("Erro ao atualizar lista"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/projects/${id}`);
+    },
+    onSuccess: invalidateProjects,
+    onError: onError("Erro ao excluir lista"),
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    createMutation.mutate({ name: newName.trim(), color: nextTagColor(projects) });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <SidebarGroupAction title="Gerenciar listas">
+          <Settings2 />
+        </SidebarGroupAction>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Listas</DialogTitle>
+          <DialogDescription>
+            Agrupe as anotações por projeto. Excluir uma lista mantém as anotações, apenas fora de qualquer lista; as de outros membros passam para você.
+          </DialogDescription>
+        </DialogHeader>
+
+        {projects.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma lista criada ainda.</p>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {projects.map((project) => (
+              <ProjectRow
+                key={project.id}
+                project={project}
+                onUpdate={(item, data) => updateMutation.mutate({ id: item.id, data })}
+                onDelete={(item) => deleteMutation.mutate(item.id)}
+              />
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="flex items-center space-x-2 pt-2 border-t border-surface-200">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Nova lista"
+            className="flex-1"
+          />
+          <Button type="submit" size="sm" disabled={createMutation.isPending || !newName.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Adicionar
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
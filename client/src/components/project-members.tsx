@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Send, Users, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SidebarMenuAction } from "@/components/ui/sidebar";
+import { useToast } from "@/hooks/use-toast";
+import { useMutationErrorToast } from "@/hooks/use-mutation-error-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  projectRoles, projectRoleLabels,
+  type ProjectInvite, type ProjectInviteInput, type ProjectMember, type ProjectRole, type ProjectWithRole,
+} from "@shared/schema";
+
+interface ProjectMembersProps {
+  project: ProjectWithRole;
+  currentUserId: number;
+}
+
+interface RoleSelectProps {
+  value: ProjectRole;
+  onChange: (role: ProjectRole) => void;
+  disabled?: boolean;
+}
+
+function RoleSelect({ value, onChange, disabled }: RoleSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ProjectRole)}
+      disabled={disabled}
+      className="border border-gray-300 rounded-md px-2 py-1 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-60"
+      aria-label="Papel"
+    >
+      {projectRoles.map((role) => (
+        <option key={role} value={role}>{projectRoleLabels[role]}</option>
+      ))}
+    </select>
+  );
+}
+
+export function ProjectMembers({ project, currentUserId }: ProjectMembersProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ProjectRole>("editor");
+  const isOwner = project.role === "owner";
+
+  // Loaded only while the dialog is open; pending invites are visible to owners only
+  const { data: members = [] } = useQuery<ProjectMember[]>({
+    queryKey: ["/api/projects", project.id, "members"],
+    enabled: open,
+  });
+  const { data: invites = [] } = useQuery<ProjectInvite[]>({
+    queryKey: ["/api/projects", project.id, "invites"],
+    enabled: open && isOwner,
+  });
+
+  const onError = useMutationErrorToast();
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: ProjectRole }) => {
+      await apiRequest("PUT", `/api/projects/${project.id}/members/${userId}`, { role });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["/api/projects"] }),
+    onError: onError("Erro ao atualizar membro"),
+  });
+
+  // Leaving a list also drops its notes from every view
+  const removeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/projects/${project.id}/members/${userId}`);
+    },
+    onSuccess: (_data, userId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      if (userId === currentUserId) {
+        setOpen(false);
+        queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+        toast({
+          title: "Você saiu da lista",
+          description: `As anotações de "${project.name}" não aparecem mais para você.`,
+        });
+      }
+    },
+    onError: onError("Erro ao remover membro"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: ProjectInviteInput) => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/invites`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "invites"] });
+    },
+    onError: onError("Erro ao convidar"),
+  });
+
+  const cancelInviteMutation = useMutation({
+    mutationFn: async (inviteId: number) => {
+      await apiRequest("DELETE", `/api/projects/${project.id}/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "invites"] });
+    },
+    onError: onError("Erro ao cancelar convite"),
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    inviteMutation.mutate({ email: email.trim(), role });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <SidebarMenuAction showOnHover className="right-7" title="Membros">
+          <Users />
+        </SidebarMenuAction>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Membros de "{project.name}"</DialogTitle>
+          <DialogDescription>
+            Leitores só veem as anotações; editores também criam, editam e comentam; donos ainda convidam e mudam papéis.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {members.map((member) => {
+            // Whoever created the list is always its owner
+            const isCreator = member.userId === project.userId;
+            const isMe = member.userId === currentUserId;
+            return (
+              <li key={member.userId} className="flex items-center space-x-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {member.user.name}{isMe && <span className="text-gray-500 font-normal"> (você)</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">{member.user.email}</div>
+                </div>
+                {isOwner && !isCreator ? (
+                  <RoleSelect
+                    value={member.role}
+                    onChange={(role) => updateMutation.mutate({ userId: member.userId, role })}
+                    disabled={updateMutation.isPending}
+                  />
+                ) : (
+                  <span className="text-xs text-gray-500">{projectRoleLabels[member.role]}</span>
+                )}
+                {!isCreator && (isOwner || isMe) && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMutation.mutate(member.userId)}
+                    disabled={removeMutation.isPending}
+                    className="text-red-500"
+                  >
+                    {isMe ? "Sair" : "Remover"}
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {isOwner && (
+          <div className="pt-2 border-t border-surface-200 space-y-3">
+            {invites.length > 0 && (
+              <ul className="space-y-1">
+                {invites.map((invite) => (
+                  <li key={invite.id} className="flex items-center text-sm text-gray-600">
+                    <span className="flex-1 truncate">
+                      {invite.email} · {projectRoleLabels[invite.role]} <span className="text-gray-400">(pendente)</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => cancelInviteMutation.mutate(invite.id)}
+                      disabled={cancelInviteMutation.isPending}
+                      className="text-gray-400 hover:text-red-500"
+                      title="Cancelar convite"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form onSubmit={handleInvite} className="flex items-center space-x-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email de quem convidar"
+                className="flex-1"
+              />
+              <RoleSelect value={role} onChange={setRole} />
+              <Button type="submit" size="sm" disabled={inviteMutation.isPending || !email.trim()}>
+                <Send className="w-4 h-4 mr-1" />
+                Convidar
+              </Button>
+            </form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
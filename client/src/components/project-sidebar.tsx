@@ -0,0 +1,166 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, Inbox, ListX, X } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { ProjectManager } from "@/components/project-manager";
+import { ProjectMembers } from "@/components/project-members";
+import { useMutationErrorToast } from "@/hooks/use-mutation-error-toast";
+import { useProjects } from "@/hooks/use-projects";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { projectRoleLabels, type ProjectCounts, type ProjectFilter, type ProjectInvite, type ProjectWithRole } from "@shared/schema";
+
+interface ProjectSidebarProps {
+  // Undefined shows every note ("Todas")
+  value?: ProjectFilter;
+  onChange: (value?: ProjectFilter) => void;
+  // Splits the lists the user created from the ones shared with them
+  currentUserId: number;
+}
+
+// Badges show open notes only, zero hidden
+function OpenCount({ count }: { count: number }) {
+  return count > 0 ? <SidebarMenuBadge>{count}</SidebarMenuBadge> : null;
+}
+
+export function ProjectSidebar({ value, onChange, currentUserId }: ProjectSidebarProps) {
+  const { projects } = useProjects();
+  const ownProjects = projects.filter((project) => project.userId === currentUserId);
+  const sharedProjects = projects.filter((project) => project.userId !== currentUserId);
+
+  // Under /api/notes so every note change refreshes the counts
+  const { data: counts } = useQuery<ProjectCounts>({
+    queryKey: ["/api/notes", "project-counts"],
+  });
+  const countOf = (projectId: number) => counts?.byProject.find((row) => row.projectId === projectId)?.count ?? 0;
+
+  const { data: invites = [] } = useQuery<ProjectInvite[]>({
+    queryKey: ["/api/invites"],
+  });
+
+  const onError = useMutationErrorToast();
+
+  // Joining a list brings its notes along
+  const acceptMutation = useMutation({
+    mutationFn: async (invite: ProjectInvite): Promise<ProjectWithRole> => {
+      const response = await apiRequest("POST", `/api/invites/${invite.id}/accept`);
+      return response.json();
+    },
+    onSuccess: (project) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      onChange(project.id);
+    },
+    onError: onError("Erro ao aceitar convite"),
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (invite: ProjectInvite) => {
+      await apiRequest("DELETE", `/api/invites/${invite.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+    },
+    onError: onError("Erro ao recusar convite"),
+  });
+
+  const projectItem = (project: ProjectWithRole) => (
+    <SidebarMenuItem key={project.id}>
+      <SidebarMenuButton isActive={value === project.id} onClick={() => onChange(project.id)}>
+        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: project.color }} />
+        <span>{project.name}</span>
+      </SidebarMenuButton>
+      <ProjectMembers project={project} currentUserId={currentUserId} />
+      <OpenCount count={countOf(project.id)} />
+    </SidebarMenuItem>
+  );
+
+  return (
+    <Sidebar>
+      <SidebarContent>
+        {invites.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Convites</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <ul className="space-y-2 px-2">
+                {invites.map((invite) => (
+                  <li key={invite.id} className="text-xs text-gray-600">
+                    <div>
+                      <span className="font-medium text-gray-900">{invite.invitedBy.name}</span> convidou você para{" "}
+                      <span className="font-medium" style={{ color: invite.project.color }}>{invite.project.name}</span>{" "}
+                      como {projectRoleLabels[invite.role].toLowerCase()}
+                    </div>
+                    <div className="flex space-x-2 mt-1">
+                      <button
+                        type="button"
+                        onClick={() => acceptMutation.mutate(invite)}
+                        disabled={acceptMutation.isPending}
+                        className="flex items-center text-success-600 hover:underline"
+                      >
+                        <Check className="w-3 h-3 mr-0.5" />
+                        Aceitar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => declineMutation.mutate(invite)}
+                        disabled={declineMutation.isPending}
+                        className="flex items-center text-gray-500 hover:underline"
+                      >
+                        <X className="w-3 h-3 mr-0.5" />
+                        Recusar
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+        <SidebarGroup>
+          <SidebarGroupLabel>Minhas listas</SidebarGroupLabel>
+          <ProjectManager currentUserId={currentUserId} />
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton isActive={value === undefined} onClick={() => onChange(undefined)}>
+                  <Inbox />
+                  <span>Todas</span>
+                </SidebarMenuButton>
+                <OpenCount count={counts?.all ?? 0} />
+              </SidebarMenuItem>
+              {ownProjects.map(projectItem)}
+              {ownProjects.length > 0 && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive={value === "none"} onClick={() => onChange("none")}>
+                    <ListX />
+                    <span>Sem lista</span>
+                  </SidebarMenuButton>
+                  <OpenCount count={counts?.none ?? 0} />
+                </SidebarMenuItem>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        {sharedProjects.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Compartilhadas comigo</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {sharedProjects.map(projectItem)}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+    </Sidebar>
+  );
+}
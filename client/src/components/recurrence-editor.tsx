@@ -0,0 +1,198 @@
+import { Repeat } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { recurrenceFrequencies, type Recurrence, type RecurrenceFrequency } from "@shared/schema";
+import { setPositionLabels, upcomingDates, weekdayLabels, weekdayOf } from "@shared/recurrence";
+
+const frequencyLabels: Record<RecurrenceFrequency, string> = {
+  daily: "Diariamente",
+  weekly: "Semanalmente",
+  monthly: "Mensalmente",
+  yearly: "Anualmente",
+};
+
+const intervalUnits: Record<RecurrenceFrequency, string> = {
+  daily: "dia(s)",
+  weekly: "semana(s)",
+  monthly: "mês(es)",
+  yearly: "ano(s)",
+};
+
+const PREVIEW_DATES = 5;
+
+const selectClassName = "px-2 py-1 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+type EndType = "never" | "count" | "until";
+
+function endTypeOf(rule: Recurrence): EndType {
+  if (rule.count !== undefined) return "count";
+  if (rule.until !== undefined) return "until";
+  return "never";
+}
+
+function formatDate(isoDate: string) {
+  return new Date(isoDate).toLocaleDateString('pt-BR', { timeZone: "UTC" });
+}
+
+interface RecurrenceEditorProps {
+  value: Recurrence | null | undefined;
+  onChange: (value: Recurrence | null) => void;
+  // First date of the series (due date, or the note date without one); new rules follow its weekday and day
+  anchorDate: string;
+}
+
+export function RecurrenceEditor({ value, onChange, anchorDate }: RecurrenceEditorProps) {
+  const hasAnchor = /^\d{4}-\d{2}-\d{2}$/.test(anchorDate);
+  const anchorDay = hasAnchor ? Number(anchorDate.slice(8, 10)) : 1;
+  const anchorWeekday = hasAnchor ? weekdayOf(anchorDate) : 0;
+  // 1st to 4th weekday of the month; days past the 28th count as the last one
+  const anchorSetPos = anchorDay > 28 ? -1 : Math.ceil(anchorDay / 7);
+
+  const setFrequency = (freq: RecurrenceFrequency | "") => {
+    if (!freq) {
+      onChange(null);
+      return;
+    }
+    const base = { freq, interval: value?.interval ?? 1, count: value?.count, until: value?.until };
+    if (freq === "weekly") {
+      onChange({ ...base, byWeekday: [anchorWeekday] });
+    } else if (freq === "monthly") {
+      onChange({ ...base, byMonthDay: anchorDay });
+    } else {
+      onChange(base);
+    }
+  };
+
+  const toggleWeekday = (rule: Recurrence, day: number) => {
+    const weekdays = rule.byWeekday ?? [];
+    const byWeekday = weekdays.includes(day) ? weekdays.filter((item) => item !== day) : [...weekdays, day].sort();
+    // At least one day stays selected
+    if (byWeekday.length > 0) {
+      onChange({ ...rule, byWeekday });
+    }
+  };
+
+  const setMonthlyMode = (rule: Recurrence, mode: string) => {
+    const { byMonthDay, bySetPos, byWeekday, ...rest } = rule;
+    onChange(mode === "weekday"
+      ? { ...rest, byWeekday: [anchorWeekday], bySetPos: anchorSetPos }
+      : { ...rest, byMonthDay: anchorDay });
+  };
+
+  const setEnd = (rule: Recurrence, end: EndType) => {
+    const { count, until, ...rest } = rule;
+    if (end === "count") {
+      onChange({ ...rest, count: 10 });
+    } else if (end === "until") {
+      onChange({ ...rest, until: hasAnchor ? anchorDate : new Date().toISOString().split('T')[0] });
+    } else {
+      onChange(rest);
+    }
+  };
+
+  const toNumber = (text: string, max: number) => Math.min(Math.max(parseInt(text, 10) || 1, 1), max);
+
+  return (
+    <div className="border border-gray-300 rounded-md p-3 space-y-3">
+      <div className="flex items-center space-x-2">
+        <Repeat className="w-4 h-4 text-gray-400" />
+        <label htmlFor="note-recurrence" className="text-sm text-gray-700">Repetir</label>
+        <select
+          id="note-recurrence"
+          className={`flex-1 ${selectClassName}`}
+          value={value?.freq ?? ""}
+          onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | "")}
+        >
+          <option value="">Não repete</option>
+          {recurrenceFrequencies.map((freq) => (
+            <option key={freq} value={freq}>{frequencyLabels[freq]}</option>
+          ))}
+        </select>
+      </div>
+
+      {value && (
+        <>
+          <div className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>A cada</span>
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: toNumber(e.target.value, 99) })}
+              className="w-20 h-8"
+            />
+            <span>{intervalUnits[value.freq]}</span>
+          </div>
+
+          {value.freq === "weekly" && (
+            <div className="flex flex-wrap gap-1">
+              {weekdayLabels.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWeekday(value, day)}
+                  className={`px-2 py-1 text-xs rounded-md border transition-colors ${
+                    value.byWeekday?.includes(day)
+                      ? "bg-primary-600 border-primary-600 text-white"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {value.freq === "monthly" && (
+            <select
+              className={`w-full ${selectClassName}`}
+              value={value.bySetPos !== undefined ? "weekday" : "day"}
+              onChange={(e) => setMonthlyMode(value, e.target.value)}
+            >
+              <option value="day">No dia {value.byMonthDay ?? anchorDay}</option>
+              <option value="weekday">
+                Na {setPositionLabels[value.bySetPos ?? anchorSetPos]} {weekdayLabels[value.byWeekday?.[0] ?? anchorWeekday].toLowerCase()} do mês
+              </option>
+            </select>
+          )}
+
+          <div className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Termina</span>
+            <select className={selectClassName} value={endTypeOf(value)} onChange={(e) => setEnd(value, e.target.value as EndType)}>
+              <option value="never">Nunca</option>
+              <option value="count">Após</option>
+              <option value="until">Em</option>
+            </select>
+            {value.count !== undefined && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={value.count}
+                  onChange={(e) => onChange({ ...value, count: toNumber(e.target.value, 999) })}
+                  className="w-20 h-8"
+                />
+                <span>vez(es)</span>
+              </>
+            )}
+            {value.until !== undefined && (
+              <Input
+                type="date"
+                value={value.until}
+                onChange={(e) => e.target.value && onChange({ ...value, until: e.target.value })}
+                className="w-40 h-8"
+              />
+            )}
+          </div>
+
+          {hasAnchor && (
+            <p className="text-xs text-gray-500">
+              Próximas datas: {upcomingDates(value, anchorDate, PREVIEW_DATES).map(formatDate).join(", ")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { statusLabel, type Status } from "@shared/schema";
+
+interface StatusBadgeProps {
+  status: Status | undefined;
+  // Shown without the status, e.g. for notes of a list with another workflow
+  fallbackLabel?: string;
+}
+
+// Tinted background from the status color; statuses still loading render as a gray badge
+export function StatusBadge({ status, fallbackLabel = "—" }: StatusBadgeProps) {
+  return (
+    <span
+      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+      style={status && { backgroundColor: `${status.color}1a`, color: status.color }}
+    >
+      {status ? statusLabel(status) : fallbackLabel}
+    </span>
+  );
+}
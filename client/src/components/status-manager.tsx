@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Plus, Settings2, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useMutationErrorToast } from "@/hooks/use-mutation-error-toast";
+import { useStatuses } from "@/hooks/use-statuses";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { statusCodeLabels, type InsertStatus, type Status } from "@shared/schema";
+
+const NEW_STATUS_COLOR = "#3b82f6";
+
+interface StatusRowProps {
+  status: Status;
+  isFirst: boolean;
+  isLast: boolean;
+  onUpdate: (status: Status, data: Partial<InsertStatus>) => void;
+  onMove: (status: Status, offset: -1 | 1) => void;
+  onDelete: (status: Status) => void;
+}
+
+function StatusRow({ status, isFirst, isLast, onUpdate, onMove, onDelete }: StatusRowProps) {
+  const [name, setName] = useState(status.name ?? "");
+  const [color, setColor] = useState(status.color);
+
+  useEffect(() => {
+    setName(status.name ?? "");
+    setColor(status.color);
+  }, [status.name, status.color]);
+
+  // Clearing the name goes back to the label of the code
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (trimmed !== (status.name ?? "")) {
+      onUpdate(status, { name: trimmed || null });
+    }
+  };
+
+  return (
+    <li className="flex items-center space-x-2">
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        // The picker fires change events while dragging; save once it closes
+        onBlur={() => color !== status.color && onUpdate(status, { color })}
+        className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+        title="Cor"
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={(e) => e.key === "Enter" && saveName()}
+        placeholder={statusCodeLabels[status.code]}
+        className="flex-1"
+      />
+      <label className="flex items-center space-x-1 text-xs text-gray-600 whitespace-nowrap" title="Anotações neste status contam como concluídas">
+        <Checkbox
+          checked={status.code === "done"}
+          onCheckedChange={(checked) => onUpdate(status, { code: checked === true ? "done" : "todo" })}
+        />
+        <span>Conclui</span>
+      </label>
+      <Button type="button" variant="ghost" size="icon" disabled={isFirst} onClick={() => onMove(status, -1)} title="Mover para cima">
+        <ArrowUp className="w-4 h-4" />
+      </Button>
+      <Button type="button" variant="ghost" size="icon" disabled={isLast} onClick={() => onMove(status, 1)} title="Mover para baixo">
+        <ArrowDown className="w-4 h-4" />
+      </Button>
+      <Button type="button" variant="ghost" size="icon" onClick={() => onDelete(status)} title="Excluir">
+        <Trash2 className="w-4 h-4 text-red-500" />
+      </Button>
+    </li>
+  );
+}
+
+export function StatusManager() {
+  const { statuses } = useStatuses();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(NEW_STATUS_COLOR);
+
+  const onError = useMutationErrorToast();
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertStatus) => {
+      const response = await apiRequest("POST", "/api/statuses", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewName("");
+      setNewColor(NEW_STATUS_COLOR);
+      queryClient.invalidateQueries({ queryKey: ["/api/statuses"] });
+    },
+    onError: onError("Erro ao criar status"),
+  });
+
+  // Several rows may change at once when reordering
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { id: number; data: Partial<InsertStatus> }[]) => {
+      for (const { id, data } of updates) {
+        await apiRequest("PUT", `/api/statuses/${id}`, data);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/statuses"] });
+    },
+    onError: onError("Erro ao atualizar status"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/statuses/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/statuses"] });
+    },
+    onError: onError("Erro ao excluir status"),
+  });
+
+  const handleMove = (status: Status, offset: -1 | 1) => {
+    const reordered = [...statuses];
+    const index = reordered.indexOf(status);
+    reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, status);
+    updateMutation.mutate(
+      reordered
+        .map((item, order) => ({ id: item.id, order, changed: item.order !== order }))
+        .filter((item) => item.changed)
+        .map(({ id, order }) => ({ id, data: { order } }))
+    );
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const order = statuses.length > 0 ? statuses[statuses.length - 1].order + 1 : 0;
+    createMutation.mutate({ name: newName.trim(), color: newColor, order, code: "todo" });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          className="px-4 py-2 text-sm font-medium rounded-md transition-colors border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center"
+          title="Gerenciar status"
+        >
+          <Settings2 className="w-4 h-4 mr-1" />
+          Status
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Status das anotações</DialogTitle>
+          <DialogDescription>
+            Defina as etapas do seu fluxo. Anotações em status marcados como "Conclui" recebem a data de conclusão.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2">
+          {statuses.map((status, index) => (
+            <StatusRow
+              key={status.id}
+              status={status}
+              isFirst={index === 0}
+              isLast={index === statuses.length - 1}
+              onUpdate={(item, data) => updateMutation.mutate([{ id: item.id, data }])}
+              onMove={handleMove}
+              onDelete={(item) => deleteMutation.mutate(item.id)}
+            />
+          ))}
+        </ul>
+
+        <form onSubmit={handleCreate} className="flex items-center space-x-2 pt-2 border-t border-surface-200">
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+            title="Cor"
+          />
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Novo status"
+            className="flex-1"
+          />
+          <Button type="submit" size="sm" disabled={createMutation.isPending || !newName.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Adicionar
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
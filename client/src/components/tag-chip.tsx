@@ -0,0 +1,25 @@
+import { X } from "lucide-react";
+import type { NoteTag } from "@shared/schema";
+
+interface TagChipProps {
+  tag: NoteTag;
+  onRemove?: () => void;
+}
+
+// Same tinted look as StatusBadge, with a dot so tags and statuses are told apart
+export function TagChip({ tag, onRemove }: TagChipProps) {
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: `${tag.color}1a`, color: tag.color }}
+    >
+      <span className="w-1.5 h-1.5 rounded-full mr-1" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="ml-1 hover:opacity-70" title={`Remover ${tag.name}`}>
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+}
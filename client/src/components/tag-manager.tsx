@@ -0,0 +1,165 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Tags, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useMutationErrorToast } from "@/hooks/use-mutation-error-toast";
+import { useTags } from "@/hooks/use-tags";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { nextTagColor } from "@/lib/tag-colors";
+import type { InsertTag, Tag } from "@shared/schema";
+
+interface TagRowProps {
+  tag: Tag;
+  onUpdate: (tag: Tag, data: Partial<InsertTag>) => void;
+  onDelete: (tag: Tag) => void;
+}
+
+function TagRow({ tag, onUpdate, onDelete }: TagRowProps) {
+  const [name, setName] = useState(tag.name);
+  const [color, setColor] = useState(tag.color);
+
+  useEffect(() => {
+    setName(tag.name);
+    setColor(tag.color);
+  }, [tag.name, tag.color]);
+
+  // Tags always need a name; clearing it puts the old one back
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(tag.name);
+    } else if (trimmed !== tag.name) {
+      onUpdate(tag, { name: trimmed });
+    }
+  };
+
+  return (
+    <li className="flex items-center space-x-2">
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        // The picker fires change events while dragging; save once it closes
+        onBlur={() => color !== tag.color && onUpdate(tag, { color })}
+        className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+        title="Cor"
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={(e) => e.key === "Enter" && saveName()}
+        className="flex-1"
+      />
+      <Button type="button" variant="ghost" size="icon" onClick={() => onDelete(tag)} title="Excluir">
+        <Trash2 className="w-4 h-4 text-red-500" />
+      </Button>
+    </li>
+  );
+}
+
+export function TagManager() {
+  const { tags } = useTags();
+  const [newName, setNewName] = useState("");
+
+  const onError = useMutationErrorToast();
+
+  // Notes embed their tags, so they are refetched too
+  const invalidateTags = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertTag) => {
+      const response = await apiRequest("POST", "/api/tags", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+    onError: onError("Erro ao criar tag"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<InsertTag> }) => {
+      await apiRequest("PUT", `/api/tags/${id}`, data);
+    },
+    onSettled: invalidateTags,
+    onError: onError("Erro ao atualizar tag"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tags/${id}`);
+    },
+    onSuccess: invalidateTags,
+    onError: onError("Erro ao excluir tag"),
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    createMutation.mutate({ name: newName.trim(), color: nextTagColor(tags) });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          className="px-4 py-2 text-sm font-medium rounded-md transition-colors border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center"
+          title="Gerenciar tags"
+        >
+          <Tags className="w-4 h-4 mr-1" />
+          Tags
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+          <DialogDescription>
+            Organize as anotações por área. Excluir uma tag apenas a remove das anotações.
+          </DialogDescription>
+        </DialogHeader>
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma tag criada ainda.</p>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {tags.map((tag) => (
+              <TagRow
+                key={tag.id}
+                tag={tag}
+                onUpdate={(item, data) => updateMutation.mutate({ id: item.id, data })}
+                onDelete={(item) => deleteMutation.mutate(item.id)}
+              />
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="flex items-center space-x-2 pt-2 border-t border-surface-200">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Nova tag"
+            className="flex-1"
+          />
+          <Button type="submit" size="sm" disabled={createMutation.isPending || !newName.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Adicionar
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Plus } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { TagChip } from "@/components/tag-chip";
+import { useToast } from "@/hooks/use-toast";
+import { useTags } from "@/hooks/use-tags";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { nextTagColor } from "@/lib/tag-colors";
+import { cn } from "@/lib/utils";
+import { MAX_NOTE_TAGS, type Tag } from "@shared/schema";
+
+interface TagPickerProps {
+  value: number[];
+  onChange: (tagIds: number[]) => void;
+}
+
+// Autocompletes existing tags; typing a new name offers to create it
+export function TagPicker({ value, onChange }: TagPickerProps) {
+  const { toast } = useToast();
+  const { tags, tagById } = useTags();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const name = search.trim();
+  const isFull = value.length >= MAX_NOTE_TAGS;
+  const canCreate = !!name && !isFull && !tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase());
+  const selected = value.map((id) => tagById.get(id)).filter((tag): tag is Tag => !!tag);
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string): Promise<Tag> => {
+      const response = await apiRequest("POST", "/api/tags", { name, color: nextTagColor(tags) });
+      return response.json();
+    },
+    onSuccess: (tag) => {
+      setSearch("");
+      onChange([...value, tag.id]);
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao criar tag",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: number) => {
+    onChange(value.includes(id) ? value.filter((tagId) => tagId !== id) : [...value, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map((tag) => (
+        <TagChip key={tag.id} tag={tag} onRemove={() => toggle(tag.id)} />
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Tag
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Buscar ou criar tag..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>Nenhuma tag encontrada</CommandEmpty>
+              <CommandGroup>
+                {tags.map((tag) => (
+                  <CommandItem
+                    key={tag.id}
+                    value={tag.name}
+                    disabled={isFull && !value.includes(tag.id)}
+                    onSelect={() => toggle(tag.id)}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value.includes(tag.id) ? "opacity-100" : "opacity-0")} />
+                    <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </CommandItem>
+                ))}
+                {canCreate && (
+                  <CommandItem
+                    forceMount
+                    value={`__create__${name}`}
+                    disabled={createMutation.isPending}
+                    onSelect={() => createMutation.mutate(name)}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Criar "{name}"
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+          {isFull && (
+            <p className="px-3 py-2 text-xs text-gray-500 border-t">Máximo de {MAX_NOTE_TAGS} tags por anotação</p>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
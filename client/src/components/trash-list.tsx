@@ -0,0 +1,143 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { differenceInCalendarDays, addDays } from "date-fns";
+import { Trash2, RotateCcw } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TrashPage } from "@shared/schema";
+
+export function TrashList() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<TrashPage>({
+    queryKey: ["/api/notes", "trash"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/notes/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      toast({
+        title: "Anotação restaurada!",
+        description: "A anotação voltou para a sua lista.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao restaurar anotação",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/notes/${id}/permanent`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      toast({
+        title: "Anotação excluída permanentemente!",
+        description: "A anotação foi removida da lixeira.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao excluir anotação",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-12 text-center">
+        <div className="text-lg">Carregando lixeira...</div>
+      </div>
+    );
+  }
+
+  const notes = data?.items ?? [];
+  const retentionDays = data?.retentionDays ?? 0;
+
+  if (notes.length === 0) {
+    return (
+      <div className="p-12 text-center">
+        <Trash2 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">A lixeira está vazia</h3>
+        <p className="text-gray-600">Anotações excluídas ficam aqui por {retentionDays} dias antes de serem removidas.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-surface-200">
+      {notes.map((note) => {
+        const daysLeft = Math.max(0, differenceInCalendarDays(addDays(new Date(note.deletedAt!), retentionDays), new Date()));
+        return (
+          <div key={note.id} className="p-6 flex items-start justify-between">
+            <div>
+              <h3 className="text-base font-medium text-gray-500 line-through">{note.title}</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Excluída em {new Date(note.deletedAt!).toLocaleDateString('pt-BR')} · removida em {daysLeft} {daysLeft === 1 ? "dia" : "dias"}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2 ml-4">
+              <button
+                onClick={() => restoreMutation.mutate(note.id)}
+                className="text-gray-400 hover:text-primary-500 transition-colors"
+                title="Restaurar"
+                disabled={restoreMutation.isPending}
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <button
+                    className="text-gray-400 hover:text-red-500 transition-colors"
+                    title="Excluir permanentemente"
+                    disabled={purgeMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Excluir permanentemente?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      "{note.title}" será removida para sempre. Esta ação não pode ser desfeita.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => purgeMutation.mutate(note.id)}
+                      className="bg-red-600 hover:bg-red-700"
+                    >
+                      Excluir
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
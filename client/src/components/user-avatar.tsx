@@ -0,0 +1,24 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import type { NoteAssignee } from "@shared/schema";
+
+interface UserAvatarProps {
+  user: NoteAssignee;
+  className?: string;
+}
+
+// First letters of the first and last names ("Ana Souza" → "AS")
+function initialsOf(name: string) {
+  const words = name.trim().split(/\s+/);
+  const initials = words.length > 1 ? words[0][0] + words[words.length - 1][0] : words[0].slice(0, 2);
+  return initials.toUpperCase();
+}
+
+export function UserAvatar({ user, className = "h-6 w-6" }: UserAvatarProps) {
+  return (
+    <Avatar className={className} title={user.name}>
+      <AvatarFallback className="bg-gray-200 text-gray-700 text-[10px] font-medium">
+        {initialsOf(user.name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,28 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+import type { NoteAssignee, ProjectMember, User } from "@shared/schema"
+
+// People a note can be assigned to: the members of its list, or only the user outside every list
+export function useAssignees(projectId: number | null | undefined) {
+  const { data: me } = useQuery<{ user: User }>({
+    queryKey: ["/api/auth/me"],
+  })
+  const { data: members = [], isLoading } = useQuery<ProjectMember[]>({
+    queryKey: ["/api/projects", projectId, "members"],
+    enabled: typeof projectId === "number",
+  })
+
+  const assignees = React.useMemo((): NoteAssignee[] => {
+    if (typeof projectId === "number") {
+      return members.map(({ user }) => ({ id: user.id, name: user.name }))
+    }
+    return me ? [{ id: me.user.id, name: me.user.name }] : []
+  }, [projectId, members, me])
+
+  const assigneeById = React.useMemo(
+    () => new Map(assignees.map((assignee) => [assignee.id, assignee])),
+    [assignees]
+  )
+
+  return { assignees, assigneeById, isLoading: typeof projectId === "number" ? isLoading : !me }
+}
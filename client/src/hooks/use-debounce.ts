@@ -0,0 +1,13 @@
+import * as React from "react"
+
+// Returns value once it has stopped changing for delay milliseconds
+export function useDebounce<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timeout)
+  }, [value, delay])
+
+  return debounced
+}
@@ -0,0 +1,26 @@
+import * as React from "react"
+
+// Calls onReachEnd whenever the returned sentinel element scrolls into view
+export function useInfiniteScroll(onReachEnd: () => void, enabled: boolean) {
+  const sentinelRef = React.useRef<HTMLDivElement | null>(null)
+  const callbackRef = React.useRef(onReachEnd)
+  callbackRef.current = onReachEnd
+
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!enabled || !sentinel) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          callbackRef.current()
+        }
+      },
+      { rootMargin: "200px" }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [enabled])
+
+  return sentinelRef
+}
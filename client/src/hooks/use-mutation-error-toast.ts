@@ -0,0 +1,14 @@
+import { useToast } from "@/hooks/use-toast"
+
+// onError for mutations: a destructive toast with the given title and the server's message
+export function useMutationErrorToast() {
+  const { toast } = useToast()
+
+  return (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    })
+  }
+}
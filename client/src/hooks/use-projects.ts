@@ -0,0 +1,17 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+import type { ProjectWithRole } from "@shared/schema"
+
+// The projects (lists) the user created or joined, each with their role, plus a lookup by id
+export function useProjects() {
+  const { data: projects = [], isLoading } = useQuery<ProjectWithRole[]>({
+    queryKey: ["/api/projects"],
+  })
+
+  const projectById = React.useMemo(
+    () => new Map(projects.map((project) => [project.id, project])),
+    [projects]
+  )
+
+  return { projects, projectById, isLoading }
+}
@@ -0,0 +1,24 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+import { apiRequest } from "@/lib/queryClient"
+import type { Status } from "@shared/schema"
+
+// The statuses in workflow order, plus a lookup by id for notes. A shared list follows
+// the workflow of whoever created it, so pass its id when showing that list
+export function useStatuses(projectId?: number) {
+  const { data: statuses = [], isLoading } = useQuery({
+    queryKey: ["/api/statuses", { projectId }],
+    queryFn: async (): Promise<Status[]> => {
+      const query = projectId === undefined ? "" : `?projectId=${projectId}`
+      const response = await apiRequest("GET", `/api/statuses${query}`)
+      return response.json()
+    },
+  })
+
+  const statusById = React.useMemo(
+    () => new Map(statuses.map((status) => [status.id, status])),
+    [statuses]
+  )
+
+  return { statuses, statusById, isLoading }
+}
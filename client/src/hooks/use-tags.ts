@@ -0,0 +1,17 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+import type { Tag } from "@shared/schema"
+
+// The user's tags by name, plus a lookup by id for form values
+export function useTags() {
+  const { data: tags = [], isLoading } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+  })
+
+  const tagById = React.useMemo(
+    () => new Map(tags.map((tag) => [tag.id, tag])),
+    [tags]
+  )
+
+  return { tags, tagById, isLoading }
+}
@@ -0,0 +1,16 @@
+import DOMPurify from "dompurify";
+import { marked } from "marked";
+
+// Links in notes open outside the app
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.tagName === "A") {
+    node.setAttribute("target", "_blank");
+    node.setAttribute("rel", "noopener noreferrer");
+  }
+});
+
+// Note bodies are user input: the HTML marked produces is always sanitized before rendering
+export function renderMarkdown(source: string): string {
+  const html = marked.parse(source, { async: false, gfm: true, breaks: true });
+  return DOMPurify.sanitize(html);
+}
@@ -0,0 +1,73 @@
+import {
+  priorityLabels, statusLabel,
+  type NoteAssignee, type NotePriority, type NoteSnapshot, type Project, type Recurrence, type Status, type Tag,
+} from "@shared/schema";
+import { describeRecurrence } from "@shared/recurrence";
+
+// Revisions snapshot the note row; tags and the assignee only show up when resolving edit conflicts
+export type NoteField = keyof NoteSnapshot | "tagIds" | "assigneeId";
+
+export const noteFieldLabels: Partial<Record<NoteField, string>> = {
+  title: "Nome da Tarefa",
+  body: "Descrição",
+  createdDate: "Data da Anotação",
+  dueDate: "Data de Vencimento",
+  completedAt: "Concluída em",
+  priority: "Prioridade",
+  completeWhenChecked: "Concluir ao marcar todos os itens",
+  recurrence: "Repetição",
+  statusId: "Status",
+  projectId: "Lista",
+  assigneeId: "Responsável",
+  tagIds: "Tags",
+};
+
+// Long bodies are cut in history and conflict views
+const BODY_PREVIEW_CHARS = 80;
+
+// statusById (see useStatuses), tagById (see useTags), projectById (see useProjects) and assigneeById
+// (see useAssignees) turn ids into names
+export function formatNoteFieldValue(
+  field: NoteField,
+  value: unknown,
+  statusById: Map<number, Status>,
+  tagById: Map<number, Tag> = new Map(),
+  projectById: Map<number, Project> = new Map(),
+  assigneeById: Map<number, NoteAssignee> = new Map(),
+) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "tagIds") {
+    const names = (value as number[]).map((id) => tagById.get(id)?.name ?? "Tag excluída");
+    return names.length > 0 ? names.join(", ") : "—";
+  }
+  if (field === "body") {
+    const text = String(value);
+    return text.length > BODY_PREVIEW_CHARS ? `${text.slice(0, BODY_PREVIEW_CHARS)}…` : text;
+  }
+  if (typeof value === "boolean") {
+    return value ? "Sim" : "Não";
+  }
+  if (field === "recurrence") {
+    return describeRecurrence(value as Recurrence);
+  }
+  if (field === "priority") {
+    return priorityLabels[value as NotePriority] ?? String(value);
+  }
+  if (field === "statusId") {
+    const status = statusById.get(value as number);
+    return status ? statusLabel(status) : "Status excluído";
+  }
+  if (field === "projectId") {
+    return projectById.get(value as number)?.name ?? "Lista excluída";
+  }
+  if (field === "assigneeId") {
+    return assigneeById.get(value as number)?.name ?? "Fora da lista";
+  }
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(value).toLocaleDateString('pt-BR');
+  }
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString('pt-BR');
+  }
+  return String(value);
+}
@@ -0,0 +1,11 @@
+import { ApiError } from "@/lib/queryClient";
+import type { Note } from "@shared/schema";
+
+// Writes send the version they were based on; the server answers 412 if it moved on
+export function ifMatch(note: Pick<Note, "version">) {
+  return { "If-Match": `"${note.version}"` };
+}
+
+export function isVersionConflict(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.status === 412;
+}
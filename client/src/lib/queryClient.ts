@@ -1,9 +1,27 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Keeps the status and parsed JSON body so callers can react to specific errors
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public body?: any,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    throw new ApiError(res.status, `${res.status}: ${text}`, body);
   }
 }
 
@@ -11,11 +29,17 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers?: Record<string, string>,
 ): Promise<Response> {
+  // FormData (uploads) goes as is, so the browser sets the multipart boundary
+  const isForm = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: {
+      ...(data && !isForm ? { "Content-Type": "application/json" } : {}),
+      ...headers,
+    },
+    body: isForm ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
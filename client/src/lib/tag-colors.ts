@@ -0,0 +1,8 @@
+import type { Tag } from "@shared/schema";
+
+// New tags cycle through these so neighbouring chips look different
+export const TAG_COLORS = ["#3b82f6", "#16a34a", "#f59e0b", "#ef4444", "#8b5cf6", "#ec4899", "#14b8a6", "#64748b"];
+
+export function nextTagColor(tags: Tag[]): string {
+  return TAG_COLORS[tags.length % TAG_COLORS.length];
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { 
@@ -11,45 +11,219 @@ import {
   LogOut, 
   CalendarPlus, 
   CalendarCheck, 
+  CalendarClock,
   Edit, 
   Trash2,
   PlusCircle,
-  CheckCircle
+  CheckCircle,
+  History,
+  ArrowLeft,
+  ArrowUpDown,
+  Download,
+  Repeat,
+  CalendarArrowUp,
+  CalendarDays,
+  Columns3,
+  MessageSquare,
+  FolderOpen,
+  UserCheck
 } from "lucide-react";
 import { FloatingLabelInput } from "@/components/ui/floating-label-input";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToastAction } from "@/components/ui/toast";
+import { SidebarProvider, SidebarInset, SidebarTrigger } from "@/components/ui/sidebar";
+import { NoteSearch } from "@/components/note-search";
+import { NoteHistory } from "@/components/note-history";
+import { NoteComments } from "@/components/note-comments";
+import { NoteBody } from "@/components/note-body";
+import { NoteCalendar } from "@/components/note-calendar";
+import { NoteBoard } from "@/components/note-board";
+import { NoteChecklist } from "@/components/note-checklist";
+import { NoteAttachments } from "@/components/note-attachments";
+import { MarkdownEditor } from "@/components/markdown-editor";
+import { MonthNavigator } from "@/components/month-navigator";
+import { MonthSummaryBar } from "@/components/month-summary";
+import { TrashList } from "@/components/trash-list";
+import { NoteConflictDialog, type NoteConflict } from "@/components/note-conflict-dialog";
+import { PriorityBadge } from "@/components/priority-badge";
+import { ProjectSidebar } from "@/components/project-sidebar";
+import { RecurrenceEditor } from "@/components/recurrence-editor";
+import { StatusBadge } from "@/components/status-badge";
+import { StatusManager } from "@/components/status-manager";
+import { TagChip } from "@/components/tag-chip";
+import { TagManager } from "@/components/tag-manager";
+import { TagPicker } from "@/components/tag-picker";
+import { AssigneePicker } from "@/components/assignee-picker";
+import { UserAvatar } from "@/components/user-avatar";
 import { useToast } from "@/hooks/use-toast";
+import { useStatuses } from "@/hooks/use-statuses";
+import { useTags } from "@/hooks/use-tags";
+import { useProjects } from "@/hooks/use-projects";
+import { useAssignees } from "@/hooks/use-assignees";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import { apiRequest } from "@/lib/queryClient";
-import { insertNoteSchema, type InsertNote, type Note, type User } from "@shared/schema";
+import { ifMatch, isVersionConflict } from "@/lib/note-versions";
+import {
+  insertNoteSchema, notePriorities, priorityLabels, statusLabel, hasProjectRole,
+  type InsertNote, type Note, type NotePage, type NoteSortField, type ProjectFilter, type User,
+} from "@shared/schema";
+import { describeRecurrence } from "@shared/recurrence";
+import { formatMonth, monthOf } from "@shared/months";
 
-type FilterType = "all" | "todo" | "completed";
+// "all" or the id of the status to show
+type FilterType = "all" | number;
+type ViewType = "notes" | "trash";
+type LayoutType = "list" | "calendar" | "board";
+
+const NOTES_PAGE_SIZE = 20;
+
+// Each option is a server sort field plus its direction
+const sortOptions = {
+  priority: { label: "Prioridade", sort: "priority", order: "desc" },
+  recent: { label: "Mais recentes", sort: "createdDate", order: "desc" },
+  due: { label: "Vencimento", sort: "dueDate", order: "asc" },
+  title: { label: "Título", sort: "title", order: "asc" },
+} satisfies Record<string, { label: string; sort: NoteSortField; order: "asc" | "desc" }>;
+
+type SortOption = keyof typeof sortOptions;
+
+// Due dates are plain YYYY-MM-DD strings, so they compare lexically
+function isOverdue(note: Note) {
+  return note.status.code !== "done" && !!note.dueDate && note.dueDate < new Date().toISOString().split('T')[0];
+}
 
 export default function DashboardPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [filter, setFilter] = useState<FilterType>("all");
+  // Notes with any of these tags; combined with the status filter
+  const [tagFilter, setTagFilter] = useState<number[]>([]);
+  // The list picked in the sidebar; undefined shows every note
+  const [projectFilter, setProjectFilter] = useState<ProjectFilter>();
+  // Only the notes assigned to the user, across every list when none is picked
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [sortBy, setSortBy] = useState<SortOption>("priority");
+  // The list shows the notes created in this month (AAAA-MM)
+  const [month, setMonth] = useState(() => monthOf(new Date().toISOString()));
+  const [view, setView] = useState<ViewType>("notes");
+  const [layout, setLayout] = useState<LayoutType>("list");
   const [editingNote, setEditingNote] = useState<Note | null>(null);
+  const [historyNoteId, setHistoryNoteId] = useState<number | null>(null);
+  const [commentsNoteId, setCommentsNoteId] = useState<number | null>(null);
+  const [conflict, setConflict] = useState<NoteConflict | null>(null);
+  const { tags } = useTags();
+  const { projects, projectById } = useProjects();
+  // Back to "Todas" when the selected list is deleted or left
+  const projectId = projectFilter === "none" || (projectFilter && projectById.has(projectFilter)) ? projectFilter : undefined;
+  const viewProject = typeof projectId === "number" ? projectById.get(projectId) : undefined;
+  // Viewers of a shared list only read its notes
+  const canEdit = !viewProject || hasProjectRole(viewProject.role, "editor");
+  // Only lists the user can write to are offered in the form
+  const writableProjects = projects.filter((project) => hasProjectRole(project.role, "editor"));
+  // "Todas" and "atribuídas a mim" mix lists, so each note is checked on its own
+  const canEditNote = (note: Note) => note.projectId === null || hasProjectRole(projectById.get(note.projectId)?.role, "editor");
+  const { statuses, statusById } = useStatuses(viewProject?.id);
+
+  // New notes start in the first open status; "mark as done" uses the first done one
+  const defaultStatusId = (statuses.find((status) => status.code !== "done") ?? statuses[0])?.id;
+  const doneStatus = statuses.find((status) => status.code === "done");
+  // New notes land in the month on screen: today in the current month, the 1st otherwise
+  const today = new Date().toISOString().split('T')[0];
+  const blankNote = () => ({
+    title: "",
+    body: "",
+    createdDate: monthOf(today) === month ? today : `${month}-01`,
+    dueDate: "",
+    priority: "medium" as const,
+    completeWhenChecked: false,
+    recurrence: null,
+    statusId: defaultStatusId,
+    tagIds: [],
+    // New notes go to the list on screen, when the user can add to it
+    projectId: viewProject && canEdit ? viewProject.id : null,
+    assigneeId: null,
+  });
   
   const form = useForm<InsertNote>({
     resolver: zodResolver(insertNoteSchema),
-    defaultValues: {
-      title: "",
-      createdDate: new Date().toISOString().split('T')[0],
-      completedDate: new Date().toISOString().split('T')[0],
-      status: "A Fazer",
-    },
+    defaultValues: blankNote(),
   });
 
+  // The status picker follows the workflow of the list chosen in the form
+  const formProjectId = Number(form.watch("projectId")) || undefined;
+  const { statuses: formStatuses } = useStatuses(formProjectId);
+  const formStatusId = Number(form.watch("statusId"));
+  const { assignees: formAssignees, isLoading: formAssigneesLoading } = useAssignees(formProjectId ?? null);
+  const formAssigneeId = form.watch("assigneeId");
+
+  // Statuses arrive after the form is created, and change with the list picked in it
+  useEffect(() => {
+    if (formStatuses.length > 0 && !formStatuses.some((status) => status.id === formStatusId)) {
+      form.setValue("statusId", (formStatuses.find((status) => status.code !== "done") ?? formStatuses[0]).id);
+    }
+  }, [formStatuses, formStatusId]);
+
+  // Whoever is not in the list picked in the form cannot stay assigned
+  useEffect(() => {
+    if (!formAssigneesLoading && formAssigneeId && !formAssignees.some((assignee) => assignee.id === formAssigneeId)) {
+      form.setValue("assigneeId", null);
+    }
+  }, [formAssignees, formAssigneesLoading, formAssigneeId]);
+
+  // A new note follows the month on screen until its date is edited by hand
+  useEffect(() => {
+    if (!editingNote && !form.formState.dirtyFields.createdDate) {
+      form.setValue("createdDate", blankNote().createdDate);
+    }
+  }, [month]);
+
+  // Same for the list picked in the sidebar
+  useEffect(() => {
+    if (!editingNote && !form.formState.dirtyFields.projectId) {
+      form.setValue("projectId", blankNote().projectId);
+    }
+  }, [projectId]);
+
   // Get current user
   const { data: userResponse, isLoading: userLoading } = useQuery({
     queryKey: ["/api/auth/me"],
   });
 
-  // Get notes
-  const { data: notes = [], isLoading: notesLoading } = useQuery<Note[]>({
-    queryKey: ["/api/notes"],
-    enabled: !!userResponse,
+  // Get notes, one page at a time, filtered on the server
+  const statusId = filter === "all" ? undefined : filter;
+  // Ignores tags deleted while selected
+  const tagIds = tags.filter((tag) => tagFilter.includes(tag.id)).map((tag) => tag.id);
+  const {
+    data: notesData,
+    isLoading: notesLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/notes", { month, statusId, tagIds, projectId, assignedToMe, sortBy }],
+    queryFn: async ({ pageParam }): Promise<NotePage> => {
+      const { sort, order } = sortOptions[sortBy];
+      const params = new URLSearchParams({ limit: String(NOTES_PAGE_SIZE), sort, order, month });
+      if (statusId) params.set("statusId", String(statusId));
+      if (tagIds.length > 0) params.set("tagIds", tagIds.join(","));
+      if (projectId !== undefined) params.set("projectId", String(projectId));
+      if (assignedToMe) params.set("assignee", "me");
+      if (pageParam) params.set("after", pageParam);
+      const response = await apiRequest("GET", `/api/notes?${params}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!userResponse && layout === "list",
   });
+  const notes = notesData?.pages.flatMap((page) => page.items) ?? [];
+
+  const loadMoreRef = useInfiniteScroll(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, !!hasNextPage);
 
   // Logout mutation
   const logoutMutation = useMutation({
@@ -68,12 +242,7 @@ export default function DashboardPage() {
       return response.json();
     },
     onSuccess: () => {
-      form.reset({
-        title: "",
-        createdDate: new Date().toISOString().split('T')[0],
-        completedDate: new Date().toISOString().split('T')[0],
-        status: "A Fazer",
-      });
+      form.reset(blankNote());
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
       toast({
         title: "Anotação criada!",
@@ -91,8 +260,8 @@ export default function DashboardPage() {
 
   // Update note mutation
   const updateNoteMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: Partial<InsertNote> }) => {
-      const response = await apiRequest("PUT", `/api/notes/${id}`, data);
+    mutationFn: async ({ note, data }: { note: Note; data: Partial<InsertNote> }) => {
+      const response = await apiRequest("PUT", `/api/notes/${note.id}`, data, ifMatch(note));
       return response.json();
     },
     onSuccess: () => {
@@ -103,7 +272,11 @@ export default function DashboardPage() {
         description: "Sua anotação foi atualizada com sucesso.",
       });
     },
-    onError: (error: any) => {
+    onError: (error: any, { note, data }) => {
+      if (isVersionConflict(error) && error.body?.note) {
+        setConflict({ base: note, mine: data, server: error.body.note });
+        return;
+      }
       toast({
         title: "Erro ao atualizar anotação",
         description: error.message,
@@ -112,19 +285,54 @@ export default function DashboardPage() {
     },
   });
 
-  // Delete note mutation
-  const deleteNoteMutation = useMutation({
+  // Restore from trash (used by the undo action after deleting)
+  const restoreNoteMutation = useMutation({
     mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/notes/${id}`);
+      const response = await apiRequest("POST", `/api/notes/${id}/restore`);
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao restaurar anotação",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete note mutation (moves the note to the trash)
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (note: Note) => {
+      await apiRequest("DELETE", `/api/notes/${note.id}`, undefined, ifMatch(note));
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      if (editingNote?.id === id) {
+        handleCancelEdit();
+      }
       toast({
-        title: "Anotação excluída!",
-        description: "Sua anotação foi excluída com sucesso.",
+        title: "Anotação movida para a lixeira!",
+        description: "Você pode restaurá-la pela Lixeira.",
+        action: (
+          <ToastAction altText="Desfazer exclusão" onClick={() => restoreNoteMutation.mutate(id)}>
+            Desfazer
+          </ToastAction>
+        ),
       });
     },
     onError: (error: any) => {
+      if (isVersionConflict(error)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+        toast({
+          title: "Anotação alterada em outra sessão",
+          description: "A lista foi atualizada. Confira as mudanças antes de excluir.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Erro ao excluir anotação",
         description: error.message,
@@ -135,12 +343,10 @@ export default function DashboardPage() {
 
   // Mark as completed mutation
   const markCompletedMutation = useMutation({
-    mutationFn: async (id: number) => {
-      const today = new Date().toISOString().split('T')[0];
-      const response = await apiRequest("PUT", `/api/notes/${id}`, {
-        status: "Concluída",
-        completedDate: today
-      });
+    mutationFn: async (note: Note) => {
+      const response = await apiRequest("PUT", `/api/notes/${note.id}`, {
+        statusId: doneStatus!.id,
+      }, ifMatch(note));
       return response.json();
     },
     onSuccess: () => {
@@ -151,6 +357,15 @@ export default function DashboardPage() {
       });
     },
     onError: (error: any) => {
+      if (isVersionConflict(error)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+        toast({
+          title: "Anotação alterada em outra sessão",
+          description: "A lista foi atualizada. Tente novamente.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Erro ao marcar como concluída",
         description: error.message,
@@ -159,9 +374,40 @@ export default function DashboardPage() {
     },
   });
 
+  // Dragging a note on the calendar moves its due date
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ note, dueDate }: { note: Note; dueDate: string }) => {
+      const response = await apiRequest("PUT", `/api/notes/${note.id}`, { dueDate }, ifMatch(note));
+      return response.json();
+    },
+    onSuccess: (_, { dueDate }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      toast({
+        title: "Anotação reagendada!",
+        description: `O vencimento agora é ${new Date(`${dueDate}T00:00:00`).toLocaleDateString('pt-BR')}.`,
+      });
+    },
+    onError: (error: any) => {
+      if (isVersionConflict(error)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+        toast({
+          title: "Anotação alterada em outra sessão",
+          description: "O calendário foi atualizado. Tente novamente.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Erro ao reagendar anotação",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: InsertNote) => {
     if (editingNote) {
-      updateNoteMutation.mutate({ id: editingNote.id, data });
+      updateNoteMutation.mutate({ note: editingNote, data });
     } else {
       createNoteMutation.mutate(data);
     }
@@ -171,27 +417,47 @@ export default function DashboardPage() {
     setEditingNote(note);
     form.reset({
       title: note.title,
+      body: note.body,
       createdDate: note.createdDate,
-      completedDate: note.completedDate || new Date().toISOString().split('T')[0],
-      status: note.status,
+      dueDate: note.dueDate ?? "",
+      priority: note.priority,
+      completeWhenChecked: note.completeWhenChecked,
+      recurrence: note.recurrence,
+      statusId: note.statusId,
+      tagIds: note.tags.map((tag) => tag.id),
+      projectId: note.projectId,
+      assigneeId: note.assigneeId,
     });
   };
 
-  const handleCancelEdit = () => {
+  // Clicking a calendar day starts a new note due that day
+  const handleCreateOn = (date: string) => {
     setEditingNote(null);
-    form.reset({
-      title: "",
-      createdDate: new Date().toISOString().split('T')[0],
-      completedDate: new Date().toISOString().split('T')[0],
-      status: "A Fazer",
-    });
+    form.reset({ ...blankNote(), dueDate: date });
+    form.setFocus("title");
   };
 
-  const filteredNotes = notes.filter((note) => {
-    if (filter === "todo") return note.status === "A Fazer";
-    if (filter === "completed") return note.status === "Concluída";
-    return true;
-  });
+  const toggleTagFilter = (id: number) => {
+    setTagFilter(tagFilter.includes(id) ? tagFilter.filter((tagId) => tagId !== id) : [...tagFilter, id]);
+  };
+
+  // Retry on top of the server version, or give up local changes when data is null
+  const handleResolveConflict = (data: Partial<InsertNote> | null) => {
+    const server = conflict!.server;
+    setConflict(null);
+    if (!data || Object.keys(data).length === 0) {
+      handleCancelEdit();
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      return;
+    }
+    setEditingNote(server);
+    updateNoteMutation.mutate({ note: server, data });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingNote(null);
+    form.reset(blankNote());
+  };
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -211,251 +477,593 @@ export default function DashboardPage() {
   }
 
   const user: User = userResponse.user as User;
+  const projectName = projectId === "none" ? "Sem lista" : projectId && projectById.get(projectId)?.name;
 
   return (
-    <div className="min-h-screen bg-surface-100">
-      {/* Header */}
-      <header className="bg-white material-shadow border-b border-surface-200">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center space-x-3">
-              <StickyNote className="w-8 h-8 text-primary-500" />
-              <h1 className="text-xl font-medium text-gray-900">Anotações Mensais</h1>
-            </div>
-            <div className="flex items-center space-x-4">
-              <span className="text-gray-700">{user.name}</span>
-              <button 
-                onClick={() => logoutMutation.mutate()}
-                className="text-gray-500 hover:text-gray-700 transition-colors"
-                title="Sair"
-              >
-                <LogOut className="w-5 h-5" />
-              </button>
+    <SidebarProvider>
+      <ProjectSidebar value={projectId} onChange={setProjectFilter} currentUserId={user.id} />
+      <SidebarInset className="min-h-screen bg-surface-100">
+        <NoteConflictDialog conflict={conflict} onResolve={handleResolveConflict} />
+
+        {/* Header */}
+        <header className="bg-white material-shadow border-b border-surface-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center space-x-3">
+                <SidebarTrigger title="Listas" />
+                <StickyNote className="w-8 h-8 text-primary-500" />
+                <h1 className="text-xl font-medium text-gray-900">Anotações Mensais</h1>
+              </div>
+              <div className="flex-1 flex justify-center px-4">
+                <NoteSearch onSelect={handleEdit} />
+              </div>
+              <div className="flex items-center space-x-4">
+                <span className="text-gray-700">{user.name}</span>
+                <button 
+                  onClick={() => logoutMutation.mutate()}
+                  className="text-gray-500 hover:text-gray-700 transition-colors"
+                  title="Sair"
+                >
+                  <LogOut className="w-5 h-5" />
+                </button>
+              </div>
             </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           
-          {/* Create Note Form */}
-          <div className="lg:col-span-1">
-            <div className="bg-white rounded-lg material-shadow p-6">
-              <h2 className="text-lg font-medium text-gray-900 mb-6 flex items-center">
-                <PlusCircle className="w-5 h-5 text-primary-500 mr-2" />
-                {editingNote ? "Editar Anotação" : "Nova Anotação"}
-              </h2>
+            {/* Create Note Form */}
+            <div className="lg:col-span-1">
+              <div className="bg-white rounded-lg material-shadow p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-6 flex items-center">
+                  <PlusCircle className="w-5 h-5 text-primary-500 mr-2" />
+                  {editingNote ? "Editar Anotação" : "Nova Anotação"}
+                </h2>
               
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                <div>
-                  <FloatingLabelInput
-                    id="note-title"
-                    label="Nome da Tarefa"
-                    type="text"
-                    {...form.register("title")}
-                  />
-                  {form.formState.errors.title && (
-                    <p className="text-sm text-red-600 mt-1">{form.formState.errors.title.message}</p>
-                  )}
-                </div>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <div>
+                    <FloatingLabelInput
+                      id="note-title"
+                      label="Nome da Tarefa"
+                      type="text"
+                      {...form.register("title")}
+                    />
+                    {form.formState.errors.title && (
+                      <p className="text-sm text-red-600 mt-1">{form.formState.errors.title.message}</p>
+                    )}
+                  </div>
                 
-                <div>
-                  <FloatingLabelInput
-                    id="note-created-date"
-                    label="Data da Anotação"
-                    type="date"
-                    {...form.register("createdDate")}
-                  />
-                  {form.formState.errors.createdDate && (
-                    <p className="text-sm text-red-600 mt-1">{form.formState.errors.createdDate.message}</p>
-                  )}
-                </div>
+                  <div>
+                    <label htmlFor="note-body" className="block text-xs text-gray-500 mb-1">Descrição</label>
+                    <Controller
+                      control={form.control}
+                      name="body"
+                      render={({ field }) => (
+                        <MarkdownEditor
+                          id="note-body"
+                          value={field.value ?? ""}
+                          onChange={field.onChange}
+                          onBlur={field.onBlur}
+                          placeholder="Detalhes da tarefa (opcional)"
+                        />
+                      )}
+                    />
+                    {form.formState.errors.body && (
+                      <p className="text-sm text-red-600 mt-1">{form.formState.errors.body.message}</p>
+                    )}
+                  </div>
                 
-                <div>
-                  <FloatingLabelInput
-                    id="note-completed-date"
-                    label="Data de Conclusão"
-                    type="date"
-                    {...form.register("completedDate")}
-                  />
-                  {form.formState.errors.completedDate && (
-                    <p className="text-sm text-red-600 mt-1">{form.formState.errors.completedDate.message}</p>
+                  <div>
+                    <FloatingLabelInput
+                      id="note-created-date"
+                      label="Data da Anotação"
+                      type="date"
+                      {...form.register("createdDate")}
+                    />
+                    {form.formState.errors.createdDate && (
+                      <p className="text-sm text-red-600 mt-1">{form.formState.errors.createdDate.message}</p>
+                    )}
+                  </div>
+                
+                  <div>
+                    <FloatingLabelInput
+                      id="note-due-date"
+                      label="Data de Vencimento (opcional)"
+                      type="date"
+                      {...form.register("dueDate")}
+                    />
+                    {form.formState.errors.dueDate && (
+                      <p className="text-sm text-red-600 mt-1">{form.formState.errors.dueDate.message}</p>
+                    )}
+                  </div>
+                
+                  <div className="relative">
+                    <select 
+                      id="note-priority" 
+                      className="w-full px-3 pt-6 pb-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all bg-white"
+                      {...form.register("priority")}
+                    >
+                      {notePriorities.map((priority) => (
+                        <option key={priority} value={priority}>{priorityLabels[priority]}</option>
+                      ))}
+                    </select>
+                    <label htmlFor="note-priority" className="absolute left-3 top-2 text-xs text-gray-500">
+                      Prioridade
+                    </label>
+                  </div>
+                
+                  <div className="relative">
+                    <select 
+                      id="note-status" 
+                      className="w-full px-3 pt-6 pb-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all bg-white"
+                      {...form.register("statusId")}
+                    >
+                      {formStatuses.map((status) => (
+                        <option key={status.id} value={status.id}>{statusLabel(status)}</option>
+                      ))}
+                    </select>
+                    <label htmlFor="note-status" className="absolute left-3 top-2 text-xs text-gray-500">
+                      Status
+                    </label>
+                  </div>
+                
+                  {writableProjects.length > 0 && (
+                    <div className="relative">
+                      <select 
+                        id="note-project" 
+                        className="w-full px-3 pt-6 pb-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all bg-white"
+                        {...form.register("projectId")}
+                      >
+                        <option value="">Nenhuma</option>
+                        {writableProjects.map((project) => (
+                          <option key={project.id} value={project.id}>{project.name}</option>
+                        ))}
+                      </select>
+                      <label htmlFor="note-project" className="absolute left-3 top-2 text-xs text-gray-500">
+                        Lista
+                      </label>
+                    </div>
                   )}
-                </div>
                 
-                <div className="relative">
-                  <select 
-                    id="note-status" 
-                    className="w-full px-3 pt-6 pb-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all bg-white"
-                    {...form.register("status")}
-                  >
-                    <option value="A Fazer">A Fazer</option>
-                    <option value="Concluída">Concluída</option>
-                  </select>
-                  <label htmlFor="note-status" className="absolute left-3 top-2 text-xs text-gray-500">
-                    Status
+                  <div>
+                    <label htmlFor="note-assignee" className="block text-xs text-gray-500 mb-1">Responsável</label>
+                    <Controller
+                      control={form.control}
+                      name="assigneeId"
+                      render={({ field }) => (
+                        <AssigneePicker
+                          id="note-assignee"
+                          projectId={formProjectId ?? null}
+                          value={field.value ?? null}
+                          onChange={field.onChange}
+                        />
+                      )}
+                    />
+                    {form.formState.errors.assigneeId && (
+                      <p className="text-sm text-red-600 mt-1">{form.formState.errors.assigneeId.message}</p>
+                    )}
+                  </div>
+                
+                  <div>
+                    <span className="block text-xs text-gray-500 mb-1">Tags</span>
+                    <Controller
+                      control={form.control}
+                      name="tagIds"
+                      render={({ field }) => (
+                        <TagPicker value={field.value ?? []} onChange={field.onChange} />
+                      )}
+                    />
+                    {form.formState.errors.tagIds && (
+                      <p className="text-sm text-red-600 mt-1">{form.formState.errors.tagIds.message}</p>
+                    )}
+                  </div>
+                
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <Controller
+                      control={form.control}
+                      name="completeWhenChecked"
+                      render={({ field }) => (
+                        <Checkbox checked={field.value ?? false} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      )}
+                    />
+                    <span>Concluir quando todos os itens do checklist forem marcados</span>
                   </label>
-                </div>
                 
-                <div className="flex space-x-2">
-                  <Button 
-                    type="submit" 
-                    className="flex-1 text-white py-3 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors font-medium flex items-center justify-center"
-                    style={{ backgroundColor: '#28a745' }}
-                    onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#218838'}
-                    onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = '#28a745'}
-                    disabled={createNoteMutation.isPending || updateNoteMutation.isPending}
-                  >
-                    <Plus className="w-4 h-4 mr-2" />
-                    Salvar
-                  </Button>
-                  {editingNote && (
+                  <div>
+                    <Controller
+                      control={form.control}
+                      name="recurrence"
+                      render={({ field }) => (
+                        <RecurrenceEditor
+                          value={field.value}
+                          onChange={field.onChange}
+                          anchorDate={form.watch("dueDate") || form.watch("createdDate")}
+                        />
+                      )}
+                    />
+                    {form.formState.errors.recurrence && (
+                      <p className="text-sm text-red-600 mt-1">{form.formState.errors.recurrence.message}</p>
+                    )}
+                  </div>
+                
+                  <div className="flex space-x-2">
                     <Button 
-                      type="button" 
-                      variant="outline"
-                      onClick={handleCancelEdit}
-                      className="px-4"
+                      type="submit" 
+                      className="flex-1 text-white py-3 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors font-medium flex items-center justify-center"
+                      style={{ backgroundColor: '#28a745' }}
+                      onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#218838'}
+                      onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = '#28a745'}
+                      disabled={createNoteMutation.isPending || updateNoteMutation.isPending}
                     >
-                      Cancelar
+                      <Plus className="w-4 h-4 mr-2" />
+                      Salvar
                     </Button>
-                  )}
-                </div>
-              </form>
+                    {editingNote && (
+                      <Button 
+                        type="button" 
+                        variant="outline"
+                        onClick={handleCancelEdit}
+                        className="px-4"
+                      >
+                        Cancelar
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </div>
             </div>
-          </div>
 
-          {/* Notes List */}
-          <div className="lg:col-span-2">
-            <div className="bg-white rounded-lg material-shadow">
+            {/* Notes List */}
+            <div className="lg:col-span-2">
+              <div className="bg-white rounded-lg material-shadow">
               
-              {/* Filters Header */}
-              <div className="p-6 border-b border-surface-200">
-                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
-                  <h2 className="text-lg font-medium text-gray-900 flex items-center">
-                    <List className="w-5 h-5 text-primary-500 mr-2" />
-                    Minhas Anotações
-                  </h2>
+                {/* Filters Header */}
+                <div className="p-6 border-b border-surface-200">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
+                    <div className="flex items-center">
+                      <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                        {view === "trash" ? (
+                          <Trash2 className="w-5 h-5 text-primary-500 mr-2" />
+                        ) : (
+                          <List className="w-5 h-5 text-primary-500 mr-2" />
+                        )}
+                        {view === "trash" ? "Lixeira" : projectName || (assignedToMe ? "Atribuídas a mim" : "Minhas Anotações")}
+                      </h2>
+                      {view === "notes" && (
+                        <div className="ml-4 flex rounded-md border border-gray-300 overflow-hidden">
+                          <button
+                            onClick={() => setLayout("list")}
+                            className={`p-1.5 ${layout === "list" ? "bg-gray-100 text-gray-900" : "text-gray-500 hover:bg-gray-50"}`}
+                            title="Lista"
+                            aria-pressed={layout === "list"}
+                          >
+                            <List className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setLayout("calendar")}
+                            className={`p-1.5 border-l border-gray-300 ${layout === "calendar" ? "bg-gray-100 text-gray-900" : "text-gray-500 hover:bg-gray-50"}`}
+                            title="Calendário"
+                            aria-pressed={layout === "calendar"}
+                          >
+                            <CalendarDays className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setLayout("board")}
+                            className={`p-1.5 border-l border-gray-300 ${layout === "board" ? "bg-gray-100 text-gray-900" : "text-gray-500 hover:bg-gray-50"}`}
+                            title="Quadro"
+                            aria-pressed={layout === "board"}
+                          >
+                            <Columns3 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                      {view === "notes" && layout === "list" && (
+                        <label className="ml-4 flex items-center text-sm text-gray-600" title="Ordenar por">
+                          <ArrowUpDown className="w-4 h-4 mr-1 text-gray-400" />
+                          <select 
+                            value={sortBy}
+                            onChange={(e) => setSortBy(e.target.value as SortOption)}
+                            className="border border-gray-300 rounded-md px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            aria-label="Ordenar por"
+                          >
+                            {Object.entries(sortOptions).map(([value, option]) => (
+                              <option key={value} value={value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                    </div>
                   
-                  {/* Filter Buttons */}
-                  <div className="flex space-x-2">
-                    <button 
-                      onClick={() => setFilter("all")}
-                      className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                        filter === "all" 
-                          ? "text-white" 
-                          : "border border-gray-300 text-gray-700 hover:bg-gray-50"
-                      }`}
-                      style={filter === "all" ? { backgroundColor: '#28a745' } : {}}
-                    >
-                      Todas
-                    </button>
-                    <button 
-                      onClick={() => setFilter("todo")}
-                      className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                        filter === "todo" 
-                          ? "text-white" 
-                          : "border border-gray-300 text-gray-700 hover:bg-gray-50"
-                      }`}
-                      style={filter === "todo" ? { backgroundColor: '#28a745' } : {}}
-                    >
-                      A Fazer
-                    </button>
-                    <button 
-                      onClick={() => setFilter("completed")}
-                      className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                        filter === "completed" 
-                          ? "text-white" 
-                          : "border border-gray-300 text-gray-700 hover:bg-gray-50"
-                      }`}
-                      style={filter === "completed" ? { backgroundColor: '#28a745' } : {}}
-                    >
-                      Concluídas
-                    </button>
+                    {view === "trash" ? (
+                      <button 
+                        onClick={() => setView("notes")}
+                        className="px-4 py-2 text-sm font-medium rounded-md transition-colors border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center"
+                      >
+                        <ArrowLeft className="w-4 h-4 mr-2" />
+                        Voltar às anotações
+                      </button>
+                    ) : (
+                      /* Filter Buttons */
+                      <div className="flex flex-wrap gap-2 justify-end">
+                        <button 
+                          onClick={() => setFilter("all")}
+                          className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                            filter === "all" 
+                              ? "text-white" 
+                              : "border border-gray-300 text-gray-700 hover:bg-gray-50"
+                          }`}
+                          style={filter === "all" ? { backgroundColor: '#28a745' } : {}}
+                        >
+                          Todas
+                        </button>
+                        {statuses.map((status) => (
+                          <button 
+                            key={status.id}
+                            onClick={() => setFilter(status.id)}
+                            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                              filter === status.id 
+                                ? "text-white" 
+                                : "border border-gray-300 text-gray-700 hover:bg-gray-50"
+                            }`}
+                            style={filter === status.id ? { backgroundColor: status.color } : {}}
+                          >
+                            {statusLabel(status)}
+                          </button>
+                        ))}
+                        <button 
+                          onClick={() => setAssignedToMe(!assignedToMe)}
+                          className={`px-4 py-2 text-sm font-medium rounded-md transition-colors border flex items-center ${
+                            assignedToMe 
+                              ? "border-primary-500 text-primary-500 bg-gray-50" 
+                              : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                          }`}
+                          title="Só as anotações atribuídas a mim"
+                          aria-pressed={assignedToMe}
+                        >
+                          <UserCheck className="w-4 h-4 mr-1" />
+                          Atribuídas a mim
+                        </button>
+                        <StatusManager />
+                        <TagManager />
+                        <a 
+                          href="/api/notes/export"
+                          download
+                          className="px-4 py-2 text-sm font-medium rounded-md transition-colors border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center"
+                          title="Exportar anotações (CSV)"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          Exportar
+                        </a>
+                        <button 
+                          onClick={() => setView("trash")}
+                          className="px-4 py-2 text-sm font-medium rounded-md transition-colors border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center"
+                          title="Lixeira"
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Lixeira
+                        </button>
+                      </div>
+                    )}
                   </div>
+
+                  {/* Month */}
+                  {view === "notes" && (
+                    <>
+                      <div className="mt-4">
+                        <MonthNavigator month={month} onChange={setMonth} />
+                      </div>
+                      <MonthSummaryBar month={month} projectId={projectId} onClosed={setMonth} />
+                    </>
+                  )}
+
+                  {/* Tag Filter */}
+                  {view === "notes" && tags.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 mt-4">
+                      <span className="text-xs text-gray-500">Tags:</span>
+                      {tags.map((tag) => (
+                        <button 
+                          key={tag.id}
+                          onClick={() => toggleTagFilter(tag.id)}
+                          className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors ${
+                            tagIds.includes(tag.id) 
+                              ? "text-white" 
+                              : "border border-gray-300 text-gray-700 hover:bg-gray-50"
+                          }`}
+                          style={tagIds.includes(tag.id) ? { backgroundColor: tag.color } : {}}
+                        >
+                          {tag.name}
+                        </button>
+                      ))}
+                      {tagIds.length > 0 && (
+                        <button 
+                          onClick={() => setTagFilter([])}
+                          className="text-xs text-gray-500 hover:text-gray-700 underline"
+                        >
+                          Limpar
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
-              </div>
               
-              {/* Notes List Container */}
-              <div className="divide-y divide-surface-200">
-                {notesLoading ? (
-                  <div className="p-12 text-center">
-                    <div className="text-lg">Carregando anotações...</div>
-                  </div>
-                ) : filteredNotes.length === 0 ? (
-                  <div className="p-12 text-center">
-                    <StickyNote className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-                    <h3 className="text-lg font-medium text-gray-900 mb-2">Nenhuma anotação encontrada</h3>
-                    <p className="text-gray-600">Crie sua primeira anotação usando o formulário ao lado.</p>
-                  </div>
+                {view === "trash" ? (
+                  <TrashList />
+                ) : layout === "calendar" ? (
+                  <NoteCalendar
+                    month={month}
+                    statusId={statusId}
+                    tagIds={tagIds}
+                    projectId={projectId}
+                    assignedToMe={assignedToMe}
+                    onCreate={handleCreateOn}
+                    onEdit={handleEdit}
+                    onReschedule={(note, dueDate) => rescheduleMutation.mutate({ note, dueDate })}
+                  />
+                ) : layout === "board" ? (
+                  <NoteBoard month={month} statusId={statusId} tagIds={tagIds} projectId={projectId} assignedToMe={assignedToMe} onEdit={handleEdit} />
                 ) : (
-                  filteredNotes.map((note) => (
-                    <div key={note.id} className="p-6 hover:bg-surface-50 transition-colors">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-3 mb-2">
-                            <h3 className="text-base font-medium text-gray-900">{note.title}</h3>
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                              note.status === "A Fazer" 
-                                ? "bg-amber-100 text-amber-800" 
-                                : "bg-success-50 text-success-600"
-                            }`}>
-                              {note.status}
-                            </span>
-                          </div>
-                          <div className="space-y-1 text-sm text-gray-600">
-                            <div className="flex items-center">
-                              <CalendarPlus className="w-4 h-4 mr-2 text-gray-400" />
-                              <span>Criada em: <span>{new Date(note.createdDate).toLocaleDateString('pt-BR')}</span></span>
-                            </div>
-                            <div className="flex items-center">
-                              <CalendarCheck className={`w-4 h-4 mr-2 ${note.completedDate ? 'text-success-500' : 'text-gray-400'}`} />
-                              <span>
-                                {note.completedDate ? (
-                                  <>Concluída em: <span className="text-success-600 font-medium">{new Date(note.completedDate).toLocaleDateString('pt-BR')}</span></>
-                                ) : (
-                                  "Conclusão: <span className='text-gray-400'>Não definida</span>"
+                  <>
+                    {/* Notes List Container */}
+                    <div className="divide-y divide-surface-200">
+                      {notesLoading ? (
+                        <div className="p-12 text-center">
+                          <div className="text-lg">Carregando anotações...</div>
+                        </div>
+                      ) : notes.length === 0 ? (
+                        <div className="p-12 text-center">
+                          <StickyNote className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                          <h3 className="text-lg font-medium text-gray-900 mb-2">Nenhuma anotação encontrada</h3>
+                          <p className="text-gray-600">Crie sua primeira anotação usando o formulário ao lado.</p>
+                        </div>
+                      ) : (
+                        notes.map((note) => (
+                          <div 
+                            key={note.id} 
+                            className={`p-6 hover:bg-surface-50 transition-colors ${note.priority === "urgent" ? "border-l-4 border-l-red-500" : ""}`}
+                          >
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1">
+                                <div className="flex items-center space-x-3 mb-2">
+                                  <h3 className="text-base font-medium text-gray-900">{note.title}</h3>
+                                  <StatusBadge status={statusById.get(note.statusId)} fallbackLabel={note.status.label} />
+                                  <PriorityBadge priority={note.priority} />
+                                </div>
+                                {projectId === undefined && note.projectId && projectById.has(note.projectId) && (
+                                  <div className="flex items-center text-xs text-gray-500 mb-2" title="Lista">
+                                    <FolderOpen className="w-3 h-3 mr-1" style={{ color: projectById.get(note.projectId)!.color }} />
+                                    <span>{projectById.get(note.projectId)!.name}</span>
+                                  </div>
+                                )}
+                                {note.assignee && (
+                                  <div className="flex items-center text-xs text-gray-500 mb-2" title="Responsável">
+                                    <UserAvatar user={note.assignee} className="h-4 w-4 mr-1" />
+                                    <span>{note.assignee.name}</span>
+                                  </div>
+                                )}
+                                {note.recurrence && (
+                                  <div className="flex items-center text-xs text-gray-500 mb-2" title="Repetição">
+                                    <Repeat className="w-3 h-3 mr-1" />
+                                    <span>{describeRecurrence(note.recurrence)}{note.occurrence > 1 && ` · ${note.occurrence}ª ocorrência`}</span>
+                                  </div>
+                                )}
+                                {note.carriedFromMonth && (
+                                  <div className="flex items-center text-xs text-gray-500 mb-2" title="Trazida ao fechar o mês anterior">
+                                    <CalendarArrowUp className="w-3 h-3 mr-1" />
+                                    <span>Veio de {formatMonth(note.carriedFromMonth)}</span>
+                                  </div>
                                 )}
-                              </span>
+                                {note.tags.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mb-2">
+                                    {note.tags.map((tag) => (
+                                      <TagChip key={tag.id} tag={tag} />
+                                    ))}
+                                  </div>
+                                )}
+                                <NoteBody body={note.body} />
+                                <NoteChecklist note={note} readOnly={!canEditNote(note)} />
+                                <NoteAttachments note={note} readOnly={!canEditNote(note)} />
+                                <div className="space-y-1 text-sm text-gray-600">
+                                  <div className="flex items-center">
+                                    <CalendarPlus className="w-4 h-4 mr-2 text-gray-400" />
+                                    <span>Criada em: <span>{new Date(note.createdDate).toLocaleDateString('pt-BR')}</span></span>
+                                  </div>
+                                  <div className="flex items-center">
+                                    <CalendarClock className={`w-4 h-4 mr-2 ${isOverdue(note) ? 'text-red-500' : 'text-gray-400'}`} />
+                                    <span>
+                                      {note.dueDate ? (
+                                        <>Vence em: <span className={isOverdue(note) ? "text-red-600 font-medium" : ""}>{new Date(note.dueDate).toLocaleDateString('pt-BR')}</span>{isOverdue(note) && <span className="text-red-600 font-medium"> (Atrasada)</span>}</>
+                                      ) : (
+                                        <>Vencimento: <span className="text-gray-400">Não definido</span></>
+                                      )}
+                                    </span>
+                                  </div>
+                                  {note.completedAt && (
+                                    <div className="flex items-center">
+                                      <CalendarCheck className="w-4 h-4 mr-2 text-success-500" />
+                                      <span>Concluída em: <span className="text-success-600 font-medium">{new Date(note.completedAt).toLocaleString('pt-BR')}</span></span>
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                              <div className="flex items-center space-x-2 ml-4">
+                                {canEditNote(note) && doneStatus && statusById.has(note.statusId) && note.status.code !== "done" && (
+                                  <button 
+                                    onClick={() => markCompletedMutation.mutate(note)}
+                                    className="text-gray-400 hover:text-success-500 transition-colors"
+                                    title="Marcar como Feita"
+                                    disabled={markCompletedMutation.isPending}
+                                  >
+                                    <CheckCircle className="w-4 h-4" />
+                                  </button>
+                                )}
+                                <button 
+                                  onClick={() => setCommentsNoteId(commentsNoteId === note.id ? null : note.id)}
+                                  className={`flex items-center transition-colors ${commentsNoteId === note.id ? 'text-primary-500' : 'text-gray-400 hover:text-primary-500'}`}
+                                  title="Comentários"
+                                >
+                                  <MessageSquare className="w-4 h-4" />
+                                  {note.commentCount > 0 && <span className="ml-0.5 text-xs">{note.commentCount}</span>}
+                                </button>
+                                <button 
+                                  onClick={() => setHistoryNoteId(historyNoteId === note.id ? null : note.id)}
+                                  className={`transition-colors ${historyNoteId === note.id ? 'text-primary-500' : 'text-gray-400 hover:text-primary-500'}`}
+                                  title="Histórico"
+                                >
+                                  <History className="w-4 h-4" />
+                                </button>
+                                {canEditNote(note) && (
+                                  <>
+                                    <button 
+                                      onClick={() => handleEdit(note)}
+                                      className="text-gray-400 hover:text-primary-500 transition-colors"
+                                      title="Editar"
+                                    >
+                                      <Edit className="w-4 h-4" />
+                                    </button>
+                                    <button 
+                                      onClick={() => deleteNoteMutation.mutate(note)}
+                                      className="text-gray-400 hover:text-red-500 transition-colors"
+                                      title="Excluir"
+                                      disabled={deleteNoteMutation.isPending}
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </button>
+                                  </>
+                                )}
+                              </div>
                             </div>
+                            {commentsNoteId === note.id && (
+                              <div className="mt-4 pt-4 border-t border-surface-200">
+                                <h4 className="text-sm font-medium text-gray-900 mb-3">Comentários</h4>
+                                <NoteComments noteId={note.id} currentUserId={user.id} readOnly={!canEditNote(note)} />
+                              </div>
+                            )}
+                            {historyNoteId === note.id && (
+                              <div className="mt-4 pt-4 border-t border-surface-200">
+                                <h4 className="text-sm font-medium text-gray-900 mb-3">Histórico de alterações</h4>
+                                <NoteHistory noteId={note.id} projectId={note.projectId} />
+                              </div>
+                            )}
                           </div>
-                        </div>
-                        <div className="flex items-center space-x-2 ml-4">
-                          {note.status === "A Fazer" && (
-                            <button 
-                              onClick={() => markCompletedMutation.mutate(note.id)}
-                              className="text-gray-400 hover:text-success-500 transition-colors"
-                              title="Marcar como Feita"
-                              disabled={markCompletedMutation.isPending}
-                            >
-                              <CheckCircle className="w-4 h-4" />
-                            </button>
-                          )}
-                          <button 
-                            onClick={() => handleEdit(note)}
-                            className="text-gray-400 hover:text-primary-500 transition-colors"
-                            title="Editar"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </button>
-                          <button 
-                            onClick={() => deleteNoteMutation.mutate(note.id)}
-                            className="text-gray-400 hover:text-red-500 transition-colors"
-                            title="Excluir"
-                            disabled={deleteNoteMutation.isPending}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
-                      </div>
+                        ))
+                      )}
                     </div>
-                  ))
+
+                    {/* Infinite scroll sentinel */}
+                    {hasNextPage && (
+                      <div ref={loadMoreRef} className="p-6 text-center text-sm text-gray-500 border-t border-surface-200">
+                        {isFetchingNextPage ? "Carregando mais anotações..." : "Role para carregar mais"}
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
             </div>
           </div>
         </div>
-      </div>
-    </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // Managed by connect-pg-simple (server/session.ts), not by the schema
+  tablesFilter: ["!sessions"],
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
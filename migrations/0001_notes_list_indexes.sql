@@ -0,0 +1,4 @@
+CREATE INDEX "notes_user_created_date_idx" ON "notes" USING btree ("user_id","created_date","id");--> statement-breakpoint
+CREATE INDEX "notes_user_completed_date_idx" ON "notes" USING btree ("user_id","completed_date","id");--> statement-breakpoint
+CREATE INDEX "notes_user_title_idx" ON "notes" USING btree ("user_id","title","id");--> statement-breakpoint
+CREATE INDEX "notes_user_status_idx" ON "notes" USING btree ("user_id","status");
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- Full-text search over notes (server/search.ts). The column is kept out of
+-- shared/schema.ts so it never leaks into the Note type or API responses.
+CREATE EXTENSION IF NOT EXISTS unaccent;
+--> statement-breakpoint
+-- Portuguese stemming with accents stripped first, so "agua" matches "água"
+DO $$ BEGIN
+ CREATE TEXT SEARCH CONFIGURATION portuguese_unaccent (COPY = portuguese);
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TEXT SEARCH CONFIGURATION portuguese_unaccent
+  ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem;
+--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "search_vector" tsvector
+  GENERATED ALWAYS AS (to_tsvector('portuguese_unaccent', "title")) STORED;
+--> statement-breakpoint
+CREATE INDEX "notes_search_vector_idx" ON "notes" USING gin ("search_vector");
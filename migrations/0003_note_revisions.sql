@@ -0,0 +1,20 @@
+CREATE TABLE "note_revisions" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "note_revisions_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"note_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"operation" text NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "note_revisions" ADD CONSTRAINT "note_revisions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "note_revisions_note_id_idx" ON "note_revisions" USING btree ("note_id","id");--> statement-breakpoint
+-- Baseline revision for notes created before history existed
+INSERT INTO "note_revisions" ("note_id", "user_id", "operation", "snapshot")
+SELECT "id", "user_id", 'create', jsonb_build_object(
+  'title', "title",
+  'createdDate', "created_date",
+  'completedDate', "completed_date",
+  'status', "status"
+)
+FROM "notes";
@@ -0,0 +1,2 @@
+ALTER TABLE "notes" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+CREATE INDEX "notes_deleted_at_idx" ON "notes" USING btree ("deleted_at");
\ No newline at end of file
@@ -0,0 +1,14 @@
+DROP INDEX "notes_user_completed_date_idx";--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "due_date" date;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "completed_at" timestamp;--> statement-breakpoint
+CREATE INDEX "notes_user_due_date_idx" ON "notes" USING btree ("user_id","due_date","id");--> statement-breakpoint
+CREATE INDEX "notes_user_completed_at_idx" ON "notes" USING btree ("user_id","completed_at","id");--> statement-breakpoint
+-- completed_date doubled as a deadline for open notes and as the completion day for done ones
+UPDATE "notes" SET "due_date" = "completed_date" WHERE "status" <> 'Concluída';--> statement-breakpoint
+UPDATE "notes" SET "completed_at" = "completed_date"::timestamp WHERE "status" = 'Concluída';--> statement-breakpoint
+UPDATE "note_revisions" SET "snapshot" = ("snapshot" - 'completedDate') || jsonb_build_object(
+  'dueDate', CASE WHEN "snapshot"->>'status' <> 'Concluída' THEN "snapshot"->'completedDate' ELSE 'null'::jsonb END,
+  'completedAt', CASE WHEN "snapshot"->>'status' = 'Concluída' THEN to_jsonb(("snapshot"->>'completedDate') || 'T00:00:00.000Z') ELSE 'null'::jsonb END
+)
+WHERE "snapshot" ? 'completedDate';--> statement-breakpoint
+ALTER TABLE "notes" DROP COLUMN "completed_date";
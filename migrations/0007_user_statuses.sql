@@ -0,0 +1,29 @@
+CREATE TABLE "statuses" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "statuses_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"color" text NOT NULL,
+	"order" integer NOT NULL,
+	"is_done" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "notes_user_status_idx";--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "status_id" integer;--> statement-breakpoint
+ALTER TABLE "statuses" ADD CONSTRAINT "statuses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "statuses_user_name_idx" ON "statuses" USING btree ("user_id","name");--> statement-breakpoint
+CREATE INDEX "statuses_user_order_idx" ON "statuses" USING btree ("user_id","order");--> statement-breakpoint
+-- Same defaults new users get on registration (see defaultStatuses in server/storage.ts)
+INSERT INTO "statuses" ("user_id", "name", "color", "order", "is_done")
+SELECT "id", 'A Fazer', '#f59e0b', 0, false FROM "users"
+UNION ALL
+SELECT "id", 'Concluída', '#16a34a', 1, true FROM "users";--> statement-breakpoint
+UPDATE "notes" SET "status_id" = "statuses"."id"
+FROM "statuses"
+WHERE "statuses"."user_id" = "notes"."user_id" AND "statuses"."name" = "notes"."status";--> statement-breakpoint
+UPDATE "note_revisions" SET "snapshot" = ("snapshot" - 'status') || jsonb_build_object('statusId', "statuses"."id")
+FROM "statuses"
+WHERE "statuses"."user_id" = "note_revisions"."user_id" AND "statuses"."name" = "note_revisions"."snapshot"->>'status';--> statement-breakpoint
+ALTER TABLE "notes" ALTER COLUMN "status_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD CONSTRAINT "notes_status_id_statuses_id_fk" FOREIGN KEY ("status_id") REFERENCES "public"."statuses"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "notes_user_status_idx" ON "notes" USING btree ("user_id","status_id");--> statement-breakpoint
+ALTER TABLE "notes" DROP COLUMN "status";
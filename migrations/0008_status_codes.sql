@@ -0,0 +1,8 @@
+CREATE TYPE "public"."status_code" AS ENUM('todo', 'done');--> statement-breakpoint
+ALTER TABLE "statuses" ALTER COLUMN "name" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "statuses" ADD COLUMN "code" "status_code" DEFAULT 'todo' NOT NULL;--> statement-breakpoint
+UPDATE "statuses" SET "code" = 'done' WHERE "is_done";--> statement-breakpoint
+-- Seeded statuses still named after their code's label now follow the label instead
+UPDATE "statuses" SET "name" = NULL
+WHERE ("code" = 'todo' AND "name" = 'A Fazer') OR ("code" = 'done' AND "name" = 'Concluída');--> statement-breakpoint
+ALTER TABLE "statuses" DROP COLUMN "is_done";
@@ -0,0 +1,10 @@
+ALTER TABLE "notes" ADD COLUMN "body" text DEFAULT '' NOT NULL;--> statement-breakpoint
+-- Search the body too; title matches rank higher (see 0002_notes_search.sql)
+DROP INDEX "notes_search_vector_idx";--> statement-breakpoint
+ALTER TABLE "notes" DROP COLUMN "search_vector";--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "search_vector" tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('portuguese_unaccent', "title"), 'A') ||
+    setweight(to_tsvector('portuguese_unaccent', "body"), 'B')
+  ) STORED;--> statement-breakpoint
+CREATE INDEX "notes_search_vector_idx" ON "notes" USING gin ("search_vector");
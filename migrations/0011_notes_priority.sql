@@ -0,0 +1,6 @@
+CREATE TYPE "public"."note_priority" AS ENUM('low', 'medium', 'high', 'urgent');--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "priority" "note_priority" DEFAULT 'medium' NOT NULL;--> statement-breakpoint
+CREATE INDEX "notes_user_priority_idx" ON "notes" USING btree ("user_id","priority","due_date","id");--> statement-breakpoint
+-- Earlier revisions restore as medium, like the notes they belong to
+UPDATE "note_revisions" SET "snapshot" = "snapshot" || '{"priority": "medium"}'::jsonb
+WHERE NOT "snapshot" ? 'priority';
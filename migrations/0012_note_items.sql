@@ -0,0 +1,13 @@
+CREATE TABLE "note_items" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "note_items_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"note_id" integer NOT NULL,
+	"text" text NOT NULL,
+	"done" boolean DEFAULT false NOT NULL,
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "complete_when_checked" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "note_items" ADD CONSTRAINT "note_items_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "note_items_note_position_idx" ON "note_items" USING btree ("note_id","position");--> statement-breakpoint
+UPDATE "note_revisions" SET "snapshot" = "snapshot" || '{"completeWhenChecked": false}'::jsonb
+WHERE NOT "snapshot" ? 'completeWhenChecked';
@@ -0,0 +1,6 @@
+ALTER TABLE "notes" ADD COLUMN "recurrence" jsonb;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "occurrence" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "next_occurrence_id" integer;--> statement-breakpoint
+CREATE INDEX "notes_pending_recurrence_idx" ON "notes" USING btree ("id") WHERE "notes"."recurrence" is not null and "notes"."next_occurrence_id" is null;--> statement-breakpoint
+UPDATE "note_revisions" SET "snapshot" = "snapshot" || '{"recurrence": null}'::jsonb
+WHERE NOT "snapshot" ? 'recurrence';
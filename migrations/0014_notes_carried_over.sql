@@ -0,0 +1,3 @@
+ALTER TABLE "notes" ADD COLUMN "carried_from_month" varchar(7);--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "carried_from_note_id" integer;--> statement-breakpoint
+CREATE INDEX "notes_carried_from_note_idx" ON "notes" USING btree ("carried_from_note_id");
\ No newline at end of file
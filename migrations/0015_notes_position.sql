@@ -0,0 +1,10 @@
+DROP INDEX "notes_user_status_idx";--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- Existing columns keep the order the notes were written in
+UPDATE "notes" SET "position" = "ordered"."position"
+FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "user_id", "status_id" ORDER BY "created_date", "id") - 1 AS "position"
+  FROM "notes"
+) AS "ordered"
+WHERE "notes"."id" = "ordered"."id";--> statement-breakpoint
+CREATE INDEX "notes_user_status_idx" ON "notes" USING btree ("user_id","status_id","position");
@@ -0,0 +1,3 @@
+ALTER TABLE "notes" ADD COLUMN "assignee_id" integer;--> statement-breakpoint
+ALTER TABLE "notes" ADD CONSTRAINT "notes_assignee_id_users_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "notes_assignee_id_idx" ON "notes" USING btree ("assignee_id");
\ No newline at end of file
@@ -0,0 +1,88 @@
+import type { Request, Response } from "express";
+import multer from "multer";
+import { storage } from "./storage";
+import { fileStore } from "./files";
+import { positiveIntFromEnv } from "./env";
+import { log } from "./vite";
+import { attachmentContentTypes } from "@shared/schema";
+
+const MB = 1024 * 1024;
+
+// Largest single upload, and the most a user can keep across all their notes
+export const ATTACHMENT_MAX_MB = positiveIntFromEnv("ATTACHMENT_MAX_MB", 10);
+export const ATTACHMENT_QUOTA_MB = positiveIntFromEnv("ATTACHMENT_QUOTA_MB", 100);
+
+export class AttachmentTypeError extends Error {
+  name = "AttachmentTypeError";
+
+  constructor(contentType: string) {
+    super(`Tipo de arquivo não permitido: ${contentType}`);
+  }
+}
+
+// One "file" field per request, buffered in memory so nothing touches the disk before it is accepted
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_MAX_MB * MB, files: 1 },
+  fileFilter: (_req, file, accept) => {
+    if ((attachmentContentTypes as readonly string[]).includes(file.mimetype)) {
+      accept(null, true);
+    } else {
+      accept(new AttachmentTypeError(file.mimetype));
+    }
+  },
+}).single("file");
+
+// Leading bytes of the binary types; the declared type of an upload is only the client's word for it
+const fileSignatures: Record<string, (bytes: Buffer) => boolean> = {
+  "image/png": (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/jpeg": (bytes) => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  "image/gif": (bytes) => ["GIF87a", "GIF89a"].includes(bytes.toString("latin1", 0, 6)),
+  "image/webp": (bytes) => bytes.toString("latin1", 0, 4) === "RIFF" && bytes.toString("latin1", 8, 12) === "WEBP",
+  "application/pdf": (bytes) => bytes.toString("latin1", 0, 5) === "%PDF-",
+};
+
+// Parses the multipart body; req.file stays undefined when no file was sent.
+// Throws AttachmentTypeError when the file does not start like its declared type
+export async function receiveUpload(req: Request, res: Response): Promise<Express.Multer.File | undefined> {
+  const file = await new Promise<Express.Multer.File | undefined>((resolve, reject) => {
+    upload(req, res, (error: unknown) => (error ? reject(error) : resolve(req.file)));
+  });
+  const matches = file && fileSignatures[file.mimetype];
+  if (file && matches && !matches(file.buffer)) {
+    throw new AttachmentTypeError(file.mimetype);
+  }
+  return file;
+}
+
+// Names arrive as latin1 from multipart headers; browsers send UTF-8 bytes
+export function fileNameOf(file: Express.Multer.File): string {
+  return Buffer.from(file.originalname, "latin1").toString("utf8").slice(0, 255);
+}
+
+export function quotaBytes(): number {
+  return ATTACHMENT_QUOTA_MB * MB;
+}
+
+// Deletes the files of attachments no longer on a note (removed, or their note purged), then their rows.
+// A file that fails to delete keeps its row, so the next run tries again
+export async function removeOrphanedAttachments(): Promise<number> {
+  const orphans = await storage.getOrphanedAttachments();
+  const removedIds: number[] = [];
+  for (const attachment of orphans) {
+    try {
+      await fileStore.delete(attachment.storageKey);
+      removedIds.push(attachment.id);
+    } catch (error: any) {
+      log(`could not delete ${attachment.storageKey}: ${error.message}`, "attachments");
+    }
+  }
+  await storage.deleteAttachments(removedIds);
+  return removedIds.length;
+}
+
+// For routes that just detached files: cleans up without holding the response, and whatever
+// fails here is retried by the hourly trash purge
+export function removeOrphanedAttachmentsInBackground() {
+  removeOrphanedAttachments().catch((error) => log(`cleanup failed: ${error.message}`, "attachments"));
+}
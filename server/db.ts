@@ -1,5 +1,7 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import pg from "pg";
 import ws from "ws";
 import * as schema from "@shared/schema";
 
@@ -11,5 +13,42 @@ if (!process.env.DATABASE_URL) {
   );
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export type DbDriver = "neon" | "pg";
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "::1", "[::1]"];
+
+// DB_DRIVER wins; otherwise local hosts and plain postgres without SSL use node-postgres
+export function resolveDriver(connectionString: string): DbDriver {
+  const configured = process.env.DB_DRIVER;
+  if (configured === "neon" || configured === "pg") {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`DB_DRIVER must be "neon" or "pg", got "${configured}"`);
+  }
+
+  try {
+    const url = new URL(connectionString);
+    if (url.hostname.endsWith(".neon.tech")) {
+      return "neon";
+    }
+    if (LOCAL_HOSTS.includes(url.hostname) || url.searchParams.get("sslmode") === "disable") {
+      return "pg";
+    }
+  } catch {
+    // Not a URL (e.g. a libpq key/value string): the host can't be checked, so node-postgres takes it
+    return "pg";
+  }
+  return "neon";
+}
+
+export const driver = resolveDriver(process.env.DATABASE_URL);
+
+export const pool: pg.Pool | NeonPool = driver === "pg"
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : new NeonPool({ connectionString: process.env.DATABASE_URL });
+
+// Both drivers expose the same drizzle query API; type against node-postgres so callers see one shape
+export const db: NodePgDatabase<typeof schema> = driver === "pg"
+  ? drizzleNodePg({ client: pool as pg.Pool, schema })
+  : drizzleNeon({ client: pool as NeonPool, schema }) as unknown as NodePgDatabase<typeof schema>;
@@ -0,0 +1,13 @@
+// Reads a whole positive number from the environment, or the fallback when unset.
+// Anything else stops the server at startup rather than disabling the limit it configures
+export function positiveIntFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
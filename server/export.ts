@@ -0,0 +1,34 @@
+import { priorityLabels, type Note } from "@shared/schema";
+import { describeRecurrence } from "@shared/recurrence";
+
+const columns: { header: string; value: (note: Note) => string }[] = [
+  { header: "Título", value: (note) => note.title },
+  { header: "Descrição", value: (note) => note.body },
+  { header: "Status", value: (note) => note.status.label },
+  { header: "Prioridade", value: (note) => priorityLabels[note.priority] },
+  { header: "Responsável", value: (note) => note.assignee?.name ?? "" },
+  { header: "Tags", value: (note) => note.tags.map((tag) => tag.name).join(", ") },
+  {
+    header: "Checklist",
+    value: (note) => note.items.length > 0 ? `${note.items.filter((item) => item.done).length} de ${note.items.length}` : "",
+  },
+  { header: "Repetição", value: (note) => note.recurrence ? describeRecurrence(note.recurrence) : "" },
+  { header: "Data da Anotação", value: (note) => note.createdDate },
+  { header: "Vencimento", value: (note) => note.dueDate ?? "" },
+  { header: "Concluída em", value: (note) => note.completedAt?.toISOString() ?? "" },
+];
+
+// Quotes every field; a leading =, +, - or @ is escaped so spreadsheets don't run it as a formula
+function csvField(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+// UTF-8 BOM so Excel detects the encoding of accented text
+export function notesToCsv(notes: Note[]): string {
+  const lines = [columns.map((column) => csvField(column.header))];
+  for (const note of notes) {
+    lines.push(columns.map((column) => csvField(column.value(note))));
+  }
+  return "\uFEFF" + lines.map((line) => line.join(",")).join("\r\n") + "\r\n";
+}
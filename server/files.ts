@@ -0,0 +1,80 @@
+import { createReadStream } from "fs";
+import { mkdir, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+
+// Where attachment bytes live. Keys are chosen by the server ("<userId>/<uuid>") and never
+// come from the client; another backend (e.g. an S3-compatible bucket) only has to implement this
+export interface FileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Throws FileNotFoundError when nothing is stored under the key
+  get(key: string): Promise<Readable>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+export class FileNotFoundError extends Error {
+  name = "FileNotFoundError";
+
+  constructor(key: string) {
+    super(`Arquivo não encontrado: ${key}`);
+  }
+}
+
+// One file per key under a root directory, keys mapping to relative paths
+export class LocalFileStore implements FileStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private pathOf(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathOf(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // Keys are unique, so an existing file means a bug rather than something to overwrite
+    await writeFile(filePath, data, { flag: "wx" });
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.pathOf(key);
+    try {
+      await stat(filePath);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        throw new FileNotFoundError(key);
+      }
+      throw error;
+    }
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.pathOf(key));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+}
+
+// FILE_STORE picks the backend; only "local" (UPLOAD_DIR, default ./uploads) exists for now
+function createFileStore(): FileStore {
+  const backend = process.env.FILE_STORE || "local";
+  if (backend !== "local") {
+    throw new Error(`Unknown FILE_STORE "${backend}"`);
+  }
+  return new LocalFileStore(process.env.UPLOAD_DIR || "uploads");
+}
+
+export const fileStore: FileStore = createFileStore();
@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { usesMemStorage } from "./storage";
+import { scheduleTrashPurge } from "./trash";
+import { scheduleRecurrence } from "./recurrence";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,7 +40,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Bring the schema up to date before any route can touch the database
+  if (!usesMemStorage) {
+    const { runMigrations } = await import("./migrate");
+    const applied = await runMigrations();
+    if (applied.length > 0) {
+      log(`applied migrations: ${applied.join(", ")}`, "migrate");
+    }
+  }
+
   const server = await registerRoutes(app);
+  scheduleTrashPurge();
+  scheduleRecurrence();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,28 @@
+import { pool } from "./db";
+import { getMigrationStatus, runMigrations } from "./migrate";
+
+// Usage: tsx server/migrate-cli.ts [up|status]
+(async () => {
+  const command = process.argv[2] ?? "up";
+
+  try {
+    if (command === "status") {
+      const { applied, pending } = await getMigrationStatus();
+      console.log(`Applied migrations: ${applied.length}`);
+      applied.forEach((tag) => console.log(`  ✓ ${tag}`));
+      console.log(`Pending migrations: ${pending.length}`);
+      pending.forEach((tag) => console.log(`  • ${tag}`));
+      process.exitCode = pending.length > 0 ? 1 : 0;
+    } else if (command === "up") {
+      const applied = await runMigrations();
+      console.log(applied.length > 0
+        ? `Applied ${applied.length} migration(s): ${applied.join(", ")}`
+        : "Database is up to date");
+    } else {
+      console.error(`Unknown command "${command}". Use "up" or "status".`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await pool.end();
+  }
+})();
@@ -0,0 +1,105 @@
+import fs from "fs";
+import path from "path";
+import type pg from "pg";
+import type { Pool as NeonPool, PoolClient as NeonPoolClient } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { migrate as migrateNeon } from "drizzle-orm/neon-serverless/migrator";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import { migrate as migrateNodePg } from "drizzle-orm/node-postgres/migrator";
+import { pool, driver } from "./db";
+
+export const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Arbitrary app-wide key for pg_advisory_lock; must stay stable across releases
+const MIGRATION_LOCK_ID = 7_203_311;
+
+interface JournalEntry {
+  idx: number;
+  when: number;
+  tag: string;
+}
+
+export interface MigrationStatus {
+  applied: string[];
+  pending: string[];
+}
+
+function readJournal(): JournalEntry[] {
+  const journalPath = path.join(MIGRATIONS_FOLDER, "meta", "_journal.json");
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf-8"));
+  return journal.entries;
+}
+
+// Neon's PoolClient mirrors node-postgres, so one client type covers both drivers
+async function connect(): Promise<pg.PoolClient> {
+  return driver === "pg"
+    ? (pool as pg.Pool).connect()
+    : (pool as NeonPool).connect() as unknown as Promise<pg.PoolClient>;
+}
+
+// Holds a session-level advisory lock on a dedicated connection so concurrent
+// instances wait for each other instead of applying the same migration twice
+async function withMigrationLock<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await connect();
+
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+    try {
+      return await fn(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function getLastAppliedMillis(client: pg.PoolClient): Promise<number | undefined> {
+  const { rows: [table] } = await client.query(
+    "SELECT to_regclass('drizzle.__drizzle_migrations') AS name",
+  );
+  if (!table?.name) {
+    return undefined;
+  }
+
+  const { rows: [last] } = await client.query(
+    "SELECT created_at FROM drizzle.__drizzle_migrations ORDER BY created_at DESC LIMIT 1",
+  );
+  return last ? Number(last.created_at) : undefined;
+}
+
+function splitByApplied(lastApplied: number | undefined): MigrationStatus {
+  const entries = readJournal();
+  return {
+    applied: entries.filter((entry) => lastApplied !== undefined && entry.when <= lastApplied).map((entry) => entry.tag),
+    pending: entries.filter((entry) => lastApplied === undefined || entry.when > lastApplied).map((entry) => entry.tag),
+  };
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const client = await connect();
+
+  try {
+    return splitByApplied(await getLastAppliedMillis(client));
+  } finally {
+    client.release();
+  }
+}
+
+// Applies every pending migration and returns the tags that were applied
+export async function runMigrations(): Promise<string[]> {
+  return withMigrationLock(async (client) => {
+    const { pending } = splitByApplied(await getLastAppliedMillis(client));
+    if (pending.length === 0) {
+      return [];
+    }
+
+    const config = { migrationsFolder: MIGRATIONS_FOLDER };
+    if (driver === "pg") {
+      await migrateNodePg(drizzleNodePg({ client }), config);
+    } else {
+      await migrateNeon(drizzleNeon({ client: client as unknown as NeonPoolClient }), config);
+    }
+    return pending;
+  });
+}
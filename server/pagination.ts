@@ -0,0 +1,45 @@
+import type { NoteRow, NoteSortField } from "@shared/schema";
+
+// Position of the last note on a page: its sort value plus id as a tie-breaker.
+// value is null when the page ended inside the trailing block of empty values.
+// Priority pages also carry the due date, which orders notes of equal priority.
+export interface NoteCursor {
+  sort: NoteSortField;
+  value: string | null;
+  dueDate?: string | null;
+  id: number;
+}
+
+// Sort values as comparable strings (timestamps as ISO 8601); null stays null
+export function sortValueOf(note: NoteRow, sort: NoteSortField): string | null {
+  const value = note[sort];
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+export function encodeCursor(note: NoteRow, sort: NoteSortField): string {
+  const cursor: NoteCursor = {
+    sort,
+    value: sortValueOf(note, sort),
+    ...(sort === "priority" && { dueDate: note.dueDate }),
+    id: note.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function isNullableString(value: unknown) {
+  return typeof value === "string" || value === null;
+}
+
+// Returns undefined for anything that is not a cursor issued for this sort field
+export function decodeCursor(raw: string, sort: NoteSortField): NoteCursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf-8"));
+    const validValue = isNullableString(cursor?.value) && (sort !== "priority" || isNullableString(cursor.dueDate));
+    if (cursor?.sort !== sort || !validValue || !Number.isInteger(cursor.id)) {
+      return undefined;
+    }
+    return cursor;
+  } catch {
+    return undefined;
+  }
+}
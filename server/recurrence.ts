@@ -0,0 +1,24 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { todayIso } from "@shared/months";
+
+const SPAWN_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// Runs once at startup and then every hour; failures are logged and retried next run
+export function scheduleRecurrence() {
+  const run = async () => {
+    try {
+      const spawned = await storage.spawnDueOccurrences(todayIso());
+      if (spawned > 0) {
+        log(`created ${spawned} recurring note occurrence(s)`, "recurrence");
+      }
+    } catch (error: any) {
+      log(`spawning occurrences failed: ${error.message}`, "recurrence");
+    }
+  };
+
+  run();
+  const timer = setInterval(run, SPAWN_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
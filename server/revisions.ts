@@ -0,0 +1,38 @@
+import type {
+  NoteRow, NoteSnapshot, NoteRevision, InsertNoteRevision, NoteRevisionWithChanges, NoteFieldChange,
+} from "@shared/schema";
+
+export function snapshotOf(note: NoteRow): NoteSnapshot {
+  const {
+    id, userId, deletedAt, version, occurrence, nextOccurrenceId, carriedFromMonth, carriedFromNoteId, position, assigneeId,
+    ...snapshot
+  } = note;
+  return snapshot;
+}
+
+// userId is whoever made the change, which in a shared list is not always the note's creator
+export function toRevision(note: NoteRow, operation: NoteRevision["operation"], userId: number): InsertNoteRevision {
+  return { noteId: note.id, userId, operation, snapshot: snapshotOf(note) };
+}
+
+function diffSnapshots(before: Partial<NoteSnapshot>, after: NoteSnapshot): NoteFieldChange[] {
+  const fields = Object.keys(after) as (keyof NoteSnapshot)[];
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, from: before[field] ?? null, to: after[field] }));
+}
+
+// Expects revisions oldest first; returns them newest first with per-revision diffs
+export function withChanges(revisions: NoteRevision[]): NoteRevisionWithChanges[] {
+  return revisions
+    .map((revision, index) => ({
+      ...revision,
+      changes: diffSnapshots(index > 0 ? revisions[index - 1].snapshot : {}, revision.snapshot),
+    }))
+    .reverse();
+}
+
+// Snapshots round-trip through jsonb, so timestamps come back as strings
+export function fromSnapshot(snapshot: NoteSnapshot): NoteSnapshot {
+  return { ...snapshot, completedAt: snapshot.completedAt ? new Date(snapshot.completedAt) : null };
+}
@@ -1,9 +1,26 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import session from "express-session";
 import bcrypt from "bcryptjs";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
-import { insertUserSchema, loginSchema, insertNoteSchema } from "@shared/schema";
+import { createSessionStore, SESSION_MAX_AGE } from "./session";
+import { decodeCursor } from "./pagination";
+import { withChanges } from "./revisions";
+import { TRASH_RETENTION_DAYS } from "./trash";
+import { notesToCsv } from "./export";
+import { fileStore } from "./files";
+import {
+  ATTACHMENT_MAX_MB, ATTACHMENT_QUOTA_MB, receiveUpload, fileNameOf, quotaBytes, removeOrphanedAttachmentsInBackground,
+} from "./attachments";
+import {
+  insertUserSchema, loginSchema, insertStatusSchema, insertTagSchema, insertNoteSchemaFor, noteListQuerySchema, noteSearchQuerySchema,
+  insertNoteItemSchema, noteItemOrderSchema, monthSummaryQuerySchema, monthCloseSchema, noteMoveSchemaFor, noteBoardQuerySchema,
+  insertNoteCommentSchema, insertProjectSchema, projectInviteSchema, projectMemberUpdateSchema,
+  statusLabel, hasProjectRole, type Note, type Status, type Tag, type Project, type ProjectRole, type ProjectWithRole,
+} from "@shared/schema";
+import { todayIso } from "@shared/months";
+import { anchorRecurrence } from "@shared/recurrence";
 import { fromZodError } from "zod-validation-error";
 
 declare module "express-session" {
@@ -12,16 +29,66 @@ declare module "express-session" {
   }
 }
 
+// Strong ETag derived from the note version (see requireIfMatch)
+function sendNote(res: Response, note: Note) {
+  res.set("ETag", `"${note.version}"`).json(note);
+}
+
+function sendVersionConflict(res: Response, current: Note) {
+  res.set("ETag", `"${current.version}"`).status(412).json({
+    message: "A anotação foi alterada em outra aba ou dispositivo",
+    note: current,
+  });
+}
+
+// Labels must tell statuses apart, including unnamed ones shown by their code label
+function hasStatusLabeled(userStatuses: Status[], label: string, exceptId?: number) {
+  return userStatuses.some((status) => status.id !== exceptId && statusLabel(status).toLowerCase() === label.toLowerCase());
+}
+
+function hasTagNamed(userTags: Tag[], name: string, exceptId?: number) {
+  return userTags.some((tag) => tag.id !== exceptId && tag.name.toLowerCase() === name.toLowerCase());
+}
+
+function hasProjectNamed(userProjects: Project[], name: string, exceptId?: number) {
+  return userProjects.some((project) => project.id !== exceptId && project.name.toLowerCase() === name.toLowerCase());
+}
+
+// Project names are unique among the projects a user created
+async function getCreatedProjects(userId: number) {
+  return (await storage.getProjects(userId)).filter((project) => project.userId === userId);
+}
+
+// Projects the user can put notes in
+async function getWritableProjects(userId: number) {
+  return (await storage.getProjects(userId)).filter((project) => hasProjectRole(project.role, "editor"));
+}
+
+// Notes use the statuses of their project's creator, or their own creator's outside every project
+async function getWorkflowStatuses(noteUserId: number, projectId: number | null, userProjects: Project[]) {
+  const project = userProjects.find((project) => project.id === projectId);
+  return storage.getStatuses(project?.userId ?? noteUserId);
+}
+
+// People who can be assigned a note: the members of its project, or its creator outside every project
+async function getAssignees(noteUserId: number, projectId: number | null) {
+  if (projectId === null) {
+    return [{ id: noteUserId }];
+  }
+  return (await storage.getProjectMembers(projectId)).map((member) => member.user);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session configuration
   app.use(session({
+    store: await createSessionStore(),
     secret: process.env.SESSION_SECRET || 'your-secret-key-change-in-production',
     resave: false,
     saveUninitialized: false,
     cookie: {
       secure: false, // Set to true in production with HTTPS
       httpOnly: true,
-      maxAge: 24 * 60 * 60 * 1000 // 24 hours
+      maxAge: SESSION_MAX_AGE
     }
   }));
 
@@ -33,6 +100,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  // Optimistic concurrency: writes must send the ETag of the version they started from
+  const requireIfMatch = (req: any, res: any, next: any) => {
+    const ifMatch: string | undefined = req.get("If-Match");
+    if (!ifMatch) {
+      return res.status(428).json({ message: "Cabeçalho If-Match é obrigatório" });
+    }
+
+    const match = ifMatch.match(/^(?:W\/)?"(\d+)"$/);
+    if (ifMatch !== "*" && !match) {
+      return res.status(400).json({ message: "Cabeçalho If-Match inválido" });
+    }
+
+    // "*" matches any current version
+    res.locals.expectedVersion = match ? parseInt(match[1], 10) : undefined;
+    next();
+  };
+
+  // Viewers of a shared project only read its notes. Notes the user cannot see at all are
+  // left to the route, which answers 404 as for a missing note
+  const requireNoteWrite = async (req: any, res: any, next: any) => {
+    try {
+      const role = await storage.getNoteRole(parseInt(req.params.id), req.session.userId);
+      if (role && !hasProjectRole(role, "editor")) {
+        return res.status(403).json({ message: "Você só pode ver as anotações desta lista" });
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Erro interno do servidor" });
+    }
+  };
+
+  // Loads the project into res.locals.project when the user has at least the role in it
+  const requireProjectRole = (role: ProjectRole) => async (req: any, res: any, next: any) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id), req.session.userId);
+      if (!project) {
+        return res.status(404).json({ message: "Lista não encontrada" });
+      }
+      if (!hasProjectRole(project.role, role)) {
+        return res.status(403).json({ message: "Somente os donos da lista podem fazer isso" });
+      }
+      res.locals.project = project;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Erro interno do servidor" });
+    }
+  };
+
   // Register endpoint
   app.post("/api/auth/register", async (req, res) => {
     try {
@@ -123,12 +238,506 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get notes
+  // Get the user's statuses in workflow order; with ?projectId, those the project's notes use
+  app.get("/api/statuses", requireAuth, async (req, res) => {
+    try {
+      if (req.query.projectId) {
+        const project = await storage.getProject(parseInt(String(req.query.projectId)), req.session.userId!);
+        if (!project) {
+          return res.status(404).json({ message: "Lista não encontrada" });
+        }
+        return res.json(await storage.getStatuses(project.userId));
+      }
+
+      const userStatuses = await storage.getStatuses(req.session.userId!);
+      res.json(userStatuses);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar status" });
+    }
+  });
+
+  // Create status
+  app.post("/api/statuses", requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertStatusSchema.parse(req.body);
+      const userStatuses = await storage.getStatuses(req.session.userId!);
+      const label = statusLabel({ name: validatedData.name ?? null, code: validatedData.code ?? "todo" });
+      if (hasStatusLabeled(userStatuses, label)) {
+        return res.status(400).json({ message: "Já existe um status com esse nome" });
+      }
+
+      const status = await storage.createStatus({
+        ...validatedData,
+        userId: req.session.userId!
+      });
+      res.json(status);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao criar status" });
+    }
+  });
+
+  // Update status (name, color, order, code)
+  app.put("/api/statuses/:id", requireAuth, async (req, res) => {
+    try {
+      const statusId = parseInt(req.params.id);
+      const validatedData = insertStatusSchema.partial().parse(req.body);
+      const userStatuses = await storage.getStatuses(req.session.userId!);
+      const existing = userStatuses.find((status) => status.id === statusId);
+      if (!existing) {
+        return res.status(404).json({ message: "Status não encontrado" });
+      }
+
+      const label = statusLabel({
+        name: validatedData.name !== undefined ? validatedData.name : existing.name,
+        code: validatedData.code ?? existing.code,
+      });
+      if (hasStatusLabeled(userStatuses, label, statusId)) {
+        return res.status(400).json({ message: "Já existe um status com esse nome" });
+      }
+
+      const updatedStatus = await storage.updateStatus(statusId, req.session.userId!, validatedData);
+      if (!updatedStatus) {
+        return res.status(404).json({ message: "Status não encontrado" });
+      }
+
+      res.json(updatedStatus);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao atualizar status" });
+    }
+  });
+
+  // Delete status (only when no note uses it)
+  app.delete("/api/statuses/:id", requireAuth, async (req, res) => {
+    try {
+      const statusId = parseInt(req.params.id);
+      const userStatuses = await storage.getStatuses(req.session.userId!);
+      if (userStatuses.length === 1 && userStatuses[0].id === statusId) {
+        return res.status(400).json({ message: "Mantenha pelo menos um status" });
+      }
+
+      const deleted = await storage.deleteStatus(statusId, req.session.userId!);
+      if (!deleted) {
+        return res.status(404).json({ message: "Status não encontrado" });
+      }
+
+      res.json({ message: "Status excluído com sucesso" });
+    } catch (error: any) {
+      if (error.name === "StatusInUseError") {
+        return res.status(409).json({ message: "Mova as anotações deste status antes de excluí-lo" });
+      }
+      res.status(500).json({ message: "Erro ao excluir status" });
+    }
+  });
+
+  // Get the user's tags by name
+  app.get("/api/tags", requireAuth, async (req, res) => {
+    try {
+      const userTags = await storage.getTags(req.session.userId!);
+      res.json(userTags);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar tags" });
+    }
+  });
+
+  // Create tag
+  app.post("/api/tags", requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertTagSchema.parse(req.body);
+      const userTags = await storage.getTags(req.session.userId!);
+      if (hasTagNamed(userTags, validatedData.name)) {
+        return res.status(400).json({ message: "Já existe uma tag com esse nome" });
+      }
+
+      const tag = await storage.createTag({
+        ...validatedData,
+        userId: req.session.userId!
+      });
+      res.json(tag);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao criar tag" });
+    }
+  });
+
+  // Update tag (name, color)
+  app.put("/api/tags/:id", requireAuth, async (req, res) => {
+    try {
+      const tagId = parseInt(req.params.id);
+      const validatedData = insertTagSchema.partial().parse(req.body);
+      const userTags = await storage.getTags(req.session.userId!);
+      if (validatedData.name && hasTagNamed(userTags, validatedData.name, tagId)) {
+        return res.status(400).json({ message: "Já existe uma tag com esse nome" });
+      }
+
+      const updatedTag = await storage.updateTag(tagId, req.session.userId!, validatedData);
+      if (!updatedTag) {
+        return res.status(404).json({ message: "Tag não encontrada" });
+      }
+
+      res.json(updatedTag);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao atualizar tag" });
+    }
+  });
+
+  // Delete tag (notes just lose it)
+  app.delete("/api/tags/:id", requireAuth, async (req, res) => {
+    try {
+      const tagId = parseInt(req.params.id);
+      const deleted = await storage.deleteTag(tagId, req.session.userId!);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tag não encontrada" });
+      }
+
+      res.json({ message: "Tag excluída com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao excluir tag" });
+    }
+  });
+
+  // Get the projects (lists) the user is a member of by name, with their role
+  app.get("/api/projects", requireAuth, async (req, res) => {
+    try {
+      const userProjects = await storage.getProjects(req.session.userId!);
+      res.json(userProjects);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar listas" });
+    }
+  });
+
+  // Create project
+  app.post("/api/projects", requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertProjectSchema.parse(req.body);
+      const userProjects = await getCreatedProjects(req.session.userId!);
+      if (hasProjectNamed(userProjects, validatedData.name)) {
+        return res.status(400).json({ message: "Já existe uma lista com esse nome" });
+      }
+
+      const project = await storage.createProject({
+        ...validatedData,
+        userId: req.session.userId!
+      });
+      res.json(project);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao criar lista" });
+    }
+  });
+
+  // Update project (name, color)
+  app.put("/api/projects/:id", requireAuth, requireProjectRole("owner"), async (req, res) => {
+    try {
+      const project: ProjectWithRole = res.locals.project;
+      const projectId = project.id;
+      const validatedData = insertProjectSchema.partial().parse(req.body);
+      const creatorProjects = await getCreatedProjects(project.userId);
+      if (validatedData.name && hasProjectNamed(creatorProjects, validatedData.name, projectId)) {
+        return res.status(400).json({ message: "Já existe uma lista com esse nome" });
+      }
+
+      const updatedProject = await storage.updateProject(projectId, req.session.userId!, validatedData);
+      if (!updatedProject) {
+        return res.status(404).json({ message: "Lista não encontrada" });
+      }
+
+      res.json(updatedProject);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao atualizar lista" });
+    }
+  });
+
+  // Delete project (its notes stay with its creator, outside any list)
+  app.delete("/api/projects/:id", requireAuth, requireProjectRole("owner"), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const deleted = await storage.deleteProject(projectId, req.session.userId!);
+      if (!deleted) {
+        return res.status(404).json({ message: "Lista não encontrada" });
+      }
+
+      res.json({ message: "Lista excluída com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao excluir lista" });
+    }
+  });
+
+  // Get a project's members
+  app.get("/api/projects/:id/members", requireAuth, requireProjectRole("viewer"), async (req, res) => {
+    try {
+      const members = await storage.getProjectMembers(res.locals.project.id);
+      res.json(members);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar membros da lista" });
+    }
+  });
+
+  // Change a member's role
+  app.put("/api/projects/:id/members/:userId", requireAuth, requireProjectRole("owner"), async (req, res) => {
+    try {
+      const project: ProjectWithRole = res.locals.project;
+      const memberId = parseInt(req.params.userId);
+      const { role } = projectMemberUpdateSchema.parse(req.body);
+      if (memberId === project.userId) {
+        return res.status(400).json({ message: "Quem criou a lista é sempre dono dela" });
+      }
+
+      const updated = await storage.updateProjectMember(project.id, memberId, role);
+      if (!updated) {
+        return res.status(404).json({ message: "Membro não encontrado" });
+      }
+
+      res.json(await storage.getProjectMembers(project.id));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao atualizar membro" });
+    }
+  });
+
+  // Remove a member; any member can also leave the project
+  app.delete("/api/projects/:id/members/:userId", requireAuth, requireProjectRole("viewer"), async (req, res) => {
+    try {
+      const project: ProjectWithRole = res.locals.project;
+      const memberId = parseInt(req.params.userId);
+      if (memberId !== req.session.userId && project.role !== "owner") {
+        return res.status(403).json({ message: "Somente os donos da lista podem fazer isso" });
+      }
+      if (memberId === project.userId) {
+        return res.status(400).json({ message: "Quem criou a lista não pode sair dela" });
+      }
+
+      const removed = await storage.removeProjectMember(project.id, memberId);
+      if (!removed) {
+        return res.status(404).json({ message: "Membro não encontrado" });
+      }
+
+      res.json({ message: "Membro removido da lista" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao remover membro" });
+    }
+  });
+
+  // Get a project's pending invites
+  app.get("/api/projects/:id/invites", requireAuth, requireProjectRole("owner"), async (req, res) => {
+    try {
+      const invites = await storage.getProjectInvites(res.locals.project.id);
+      res.json(invites);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar convites" });
+    }
+  });
+
+  // Invite a registered user by email; inviting again changes the pending invite's role
+  app.post("/api/projects/:id/invites", requireAuth, requireProjectRole("owner"), async (req, res) => {
+    try {
+      const project: ProjectWithRole = res.locals.project;
+      const validatedData = projectInviteSchema.parse(req.body);
+      const invitee = await storage.getUserByEmail(validatedData.email);
+      if (!invitee) {
+        return res.status(404).json({ message: "Nenhum usuário cadastrado com esse email" });
+      }
+      const members = await storage.getProjectMembers(project.id);
+      if (members.some((member) => member.userId === invitee.id)) {
+        return res.status(400).json({ message: "Essa pessoa já participa da lista" });
+      }
+
+      const invite = await storage.createProjectInvite({
+        ...validatedData,
+        projectId: project.id,
+        invitedById: req.session.userId!
+      });
+      res.json(invite);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao convidar" });
+    }
+  });
+
+  // Cancel a pending invite
+  app.delete("/api/projects/:id/invites/:inviteId", requireAuth, requireProjectRole("owner"), async (req, res) => {
+    try {
+      const inviteId = parseInt(req.params.inviteId);
+      const deleted = await storage.deleteProjectInvite(res.locals.project.id, inviteId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Convite não encontrado" });
+      }
+
+      res.json({ message: "Convite cancelado" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao cancelar convite" });
+    }
+  });
+
+  // Get the invites addressed to the user
+  app.get("/api/invites", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const invites = user ? await storage.getInvitesForEmail(user.email) : [];
+      res.json(invites);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar convites" });
+    }
+  });
+
+  // Accept an invite: the user joins the project with the invite's role
+  app.post("/api/invites/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const project = user && await storage.acceptProjectInvite(parseInt(req.params.id), user);
+      if (!project) {
+        return res.status(404).json({ message: "Convite não encontrado" });
+      }
+
+      res.json(project);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao aceitar convite" });
+    }
+  });
+
+  // Decline an invite
+  app.delete("/api/invites/:id", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const declined = user && await storage.declineProjectInvite(parseInt(req.params.id), user);
+      if (!declined) {
+        return res.status(404).json({ message: "Convite não encontrado" });
+      }
+
+      res.json({ message: "Convite recusado" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao recusar convite" });
+    }
+  });
+
+  // Get notes (filtered, sorted and paginated by cursor)
   app.get("/api/notes", requireAuth, async (req, res) => {
     try {
-      const notes = await storage.getNotesByUserId(req.session.userId!);
+      const { after, ...query } = noteListQuerySchema.parse(req.query);
+
+      const cursor = after ? decodeCursor(after, query.sort) : undefined;
+      if (after && !cursor) {
+        return res.status(400).json({ message: "Cursor de paginação inválido" });
+      }
+
+      const page = await storage.listNotes(req.session.userId!, { ...query, after: cursor });
+      res.json(page);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao buscar anotações" });
+    }
+  });
+
+  // Every note for the kanban board, in column order
+  app.get("/api/notes/board", requireAuth, async (req, res) => {
+    try {
+      const query = noteBoardQuerySchema.parse(req.query);
+      const notes = await storage.getBoardNotes(req.session.userId!, query);
       res.json(notes);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao buscar o quadro" });
+    }
+  });
+
+  // Counts for the month header of the dashboard
+  app.get("/api/notes/summary", requireAuth, async (req, res) => {
+    try {
+      const query = monthSummaryQuerySchema.parse(req.query);
+      const summary = await storage.getMonthSummary(req.session.userId!, query, todayIso());
+      res.json(summary);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao resumir o mês" });
+    }
+  });
+
+  // Open notes per project for the sidebar; under /api/notes so note changes refresh it
+  app.get("/api/notes/project-counts", requireAuth, async (req, res) => {
+    try {
+      const counts = await storage.getProjectCounts(req.session.userId!);
+      res.json(counts);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao contar anotações das listas" });
+    }
+  });
+
+  // Close a month: carry its open notes over to the next one
+  app.post("/api/notes/close-month", requireAuth, async (req, res) => {
+    try {
+      const close = monthCloseSchema.parse(req.body);
+      const result = await storage.closeMonth(req.session.userId!, close);
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao fechar o mês" });
+    }
+  });
+
+  // Export every active note as CSV
+  app.get("/api/notes/export", requireAuth, async (req, res) => {
+    try {
+      const notes = await storage.getNotesByUserId(req.session.userId!);
+      notes.sort((a, b) => a.createdDate.localeCompare(b.createdDate) || a.id - b.id);
+      res
+        .set("Content-Type", "text/csv; charset=utf-8")
+        .set("Content-Disposition", 'attachment; filename="anotacoes.csv"')
+        .send(notesToCsv(notes));
     } catch (error) {
+      res.status(500).json({ message: "Erro ao exportar anotações" });
+    }
+  });
+
+  // Search notes (full text, ranked, with highlighted snippets)
+  app.get("/api/notes/search", requireAuth, async (req, res) => {
+    try {
+      const query = noteSearchQuerySchema.parse(req.query);
+      const results = await storage.searchNotes(req.session.userId!, query);
+      res.json(results);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
       res.status(500).json({ message: "Erro ao buscar anotações" });
     }
   });
@@ -136,12 +745,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create note
   app.post("/api/notes", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertNoteSchema.parse(req.body);
+      const userProjects = await getWritableProjects(req.session.userId!);
+      const { projectId } = insertNoteSchemaFor([], [], userProjects).pick({ projectId: true }).parse(req.body);
+      const userStatuses = await getWorkflowStatuses(req.session.userId!, projectId, userProjects);
+      const userTags = await storage.getTags(req.session.userId!);
+      const assignees = await getAssignees(req.session.userId!, projectId);
+      const validatedData = insertNoteSchemaFor(userStatuses, userTags, userProjects, assignees).parse(req.body);
+      if (validatedData.recurrence) {
+        validatedData.recurrence = anchorRecurrence(validatedData.recurrence, validatedData.dueDate ?? validatedData.createdDate);
+      }
       const note = await storage.createNote({
         ...validatedData,
         userId: req.session.userId!
       });
-      res.json(note);
+      sendNote(res, note);
     } catch (error: any) {
       if (error.name === "ZodError") {
         const validationError = fromZodError(error);
@@ -151,19 +768,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Move a note on the board: another position in its column, or another status column
+  app.post("/api/notes/:id/move", requireAuth, requireIfMatch, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const current = await storage.getNote(noteId, req.session.userId!);
+      if (!current) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+      const userProjects = await getWritableProjects(req.session.userId!);
+      const userStatuses = await getWorkflowStatuses(current.userId, current.projectId, userProjects);
+      const move = noteMoveSchemaFor(userStatuses).parse(req.body);
+      const note = await storage.moveNote(noteId, req.session.userId!, move, res.locals.expectedVersion);
+
+      if (!note) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+
+      sendNote(res, note);
+    } catch (error: any) {
+      if (error.name === "NoteVersionConflictError") {
+        return sendVersionConflict(res, error.current);
+      }
+      if (error.name === "NoteMoveError") {
+        return res.status(409).json({ message: "O quadro mudou. Recarregue e tente novamente." });
+      }
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao mover anotação" });
+    }
+  });
+
   // Update note
-  app.put("/api/notes/:id", requireAuth, async (req, res) => {
+  app.put("/api/notes/:id", requireAuth, requireIfMatch, requireNoteWrite, async (req, res) => {
     try {
       const noteId = parseInt(req.params.id);
-      const validatedData = insertNoteSchema.partial().parse(req.body);
+      const current = await storage.getNote(noteId, req.session.userId!);
+      if (!current) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+      const userProjects = await getWritableProjects(req.session.userId!);
+      const { projectId = current.projectId } = insertNoteSchemaFor([], [], userProjects).pick({ projectId: true }).partial().parse(req.body);
+      const userStatuses = await getWorkflowStatuses(current.userId, projectId, userProjects);
+      // Tags of other members stay allowed on the notes that already have them
+      const userTags = [...await storage.getTags(req.session.userId!), ...current.tags];
+      const assignees = await getAssignees(current.userId, projectId);
+      const validatedData = insertNoteSchemaFor(userStatuses, userTags, userProjects, assignees).partial().parse(req.body);
+      if (validatedData.statusId === undefined && !userStatuses.some((status) => status.id === current.statusId)) {
+        return res.status(400).json({ message: "Escolha um status da nova lista" });
+      }
+      // Moving the note to a list its assignee is not in leaves it unassigned
+      if (validatedData.assigneeId === undefined && current.assigneeId !== null
+        && !assignees.some((user) => user.id === current.assigneeId)) {
+        validatedData.assigneeId = null;
+      }
+      if (validatedData.recurrence) {
+        const dueDate = validatedData.dueDate !== undefined ? validatedData.dueDate : current.dueDate;
+        validatedData.recurrence = anchorRecurrence(validatedData.recurrence, dueDate ?? validatedData.createdDate ?? current.createdDate);
+      }
       
-      const updatedNote = await storage.updateNote(noteId, req.session.userId!, validatedData);
+      const updatedNote = await storage.updateNote(noteId, req.session.userId!, validatedData, res.locals.expectedVersion);
       if (!updatedNote) {
         return res.status(404).json({ message: "Anotação não encontrada" });
       }
       
-      res.json(updatedNote);
+      sendNote(res, updatedNote);
     } catch (error: any) {
+      if (error.name === "NoteVersionConflictError") {
+        return sendVersionConflict(res, error.current);
+      }
       if (error.name === "ZodError") {
         const validationError = fromZodError(error);
         return res.status(400).json({ message: validationError.message });
@@ -172,22 +847,359 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete note
-  app.delete("/api/notes/:id", requireAuth, async (req, res) => {
+  // Delete note (moves it to the trash)
+  app.delete("/api/notes/:id", requireAuth, requireIfMatch, requireNoteWrite, async (req, res) => {
     try {
       const noteId = parseInt(req.params.id);
-      const deleted = await storage.deleteNote(noteId, req.session.userId!);
+      const deleted = await storage.deleteNote(noteId, req.session.userId!, res.locals.expectedVersion);
       
       if (!deleted) {
         return res.status(404).json({ message: "Anotação não encontrada" });
       }
       
-      res.json({ message: "Anotação excluída com sucesso" });
+      res.json({ message: "Anotação movida para a lixeira" });
+    } catch (error: any) {
+      if (error.name === "NoteVersionConflictError") {
+        return sendVersionConflict(res, error.current);
+      }
+      res.status(500).json({ message: "Erro ao excluir anotação" });
+    }
+  });
+
+  // Get trashed notes
+  app.get("/api/notes/trash", requireAuth, async (req, res) => {
+    try {
+      const notes = await storage.getTrashedNotes(req.session.userId!);
+      res.json({ items: notes, retentionDays: TRASH_RETENTION_DAYS });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar lixeira" });
+    }
+  });
+
+  // Restore note from the trash
+  app.post("/api/notes/:id/restore", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const restoredNote = await storage.restoreNote(noteId, req.session.userId!);
+
+      if (!restoredNote) {
+        return res.status(404).json({ message: "Anotação não encontrada na lixeira" });
+      }
+
+      sendNote(res, restoredNote);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao restaurar anotação" });
+    }
+  });
+
+  // Permanently delete a trashed note
+  app.delete("/api/notes/:id/permanent", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const purged = await storage.purgeNote(noteId, req.session.userId!);
+
+      if (!purged) {
+        return res.status(404).json({ message: "Anotação não encontrada na lixeira" });
+      }
+
+      removeOrphanedAttachmentsInBackground();
+      res.json({ message: "Anotação excluída permanentemente" });
     } catch (error) {
       res.status(500).json({ message: "Erro ao excluir anotação" });
     }
   });
 
+  // Get note revision history (newest first, with field-level changes)
+  app.get("/api/notes/:id/revisions", requireAuth, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const revisions = await storage.getNoteRevisions(noteId, req.session.userId!);
+
+      if (revisions.length === 0) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+
+      res.json(withChanges(revisions));
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar histórico" });
+    }
+  });
+
+  // Restore a note to an earlier revision
+  app.post("/api/notes/:id/revisions/:revisionId/restore", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const revisionId = parseInt(req.params.revisionId);
+      const restoredNote = await storage.restoreNoteRevision(noteId, revisionId, req.session.userId!);
+
+      if (!restoredNote) {
+        return res.status(404).json({ message: "Revisão não encontrada" });
+      }
+
+      sendNote(res, restoredNote);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao restaurar revisão" });
+    }
+  });
+
+  // Add a checklist item at the end (answers with the whole note)
+  app.post("/api/notes/:id/items", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const validatedData = insertNoteItemSchema.parse(req.body);
+      const note = await storage.addNoteItem(noteId, req.session.userId!, validatedData);
+
+      if (!note) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+
+      sendNote(res, note);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao adicionar item" });
+    }
+  });
+
+  // Reorder checklist items; registered before /items/:itemId so "reorder" is not taken as an id
+  app.post("/api/notes/:id/items/reorder", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const { itemIds } = noteItemOrderSchema.parse(req.body);
+      const note = await storage.reorderNoteItems(noteId, req.session.userId!, itemIds);
+
+      if (!note) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+
+      sendNote(res, note);
+    } catch (error: any) {
+      if (error.name === "NoteItemOrderError") {
+        return res.status(409).json({ message: "A lista de itens mudou. Recarregue e tente novamente." });
+      }
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao reordenar itens" });
+    }
+  });
+
+  // Update a checklist item (text, done)
+  app.put("/api/notes/:id/items/:itemId", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const itemId = parseInt(req.params.itemId);
+      const validatedData = insertNoteItemSchema.partial().parse(req.body);
+      const note = await storage.updateNoteItem(noteId, itemId, req.session.userId!, validatedData);
+
+      if (!note) {
+        return res.status(404).json({ message: "Item não encontrado" });
+      }
+
+      sendNote(res, note);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao atualizar item" });
+    }
+  });
+
+  // Delete a checklist item
+  app.delete("/api/notes/:id/items/:itemId", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const itemId = parseInt(req.params.itemId);
+      const note = await storage.deleteNoteItem(noteId, itemId, req.session.userId!);
+
+      if (!note) {
+        return res.status(404).json({ message: "Item não encontrado" });
+      }
+
+      sendNote(res, note);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao excluir item" });
+    }
+  });
+
+  // Get a note's comments, oldest first
+  app.get("/api/notes/:id/comments", requireAuth, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const comments = await storage.getNoteComments(noteId, req.session.userId!);
+
+      if (!comments) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+
+      res.json(comments);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar comentários" });
+    }
+  });
+
+  // Add a comment to a note
+  app.post("/api/notes/:id/comments", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const validatedData = insertNoteCommentSchema.parse(req.body);
+      const comment = await storage.addNoteComment(noteId, req.session.userId!, validatedData);
+
+      if (!comment) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+
+      res.json(comment);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao comentar" });
+    }
+  });
+
+  // Edit one of your comments
+  app.put("/api/notes/:id/comments/:commentId", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const commentId = parseInt(req.params.commentId);
+      const validatedData = insertNoteCommentSchema.parse(req.body);
+      const comment = await storage.updateNoteComment(noteId, commentId, req.session.userId!, validatedData);
+
+      if (!comment) {
+        return res.status(404).json({ message: "Comentário não encontrado" });
+      }
+
+      res.json(comment);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Erro ao editar comentário" });
+    }
+  });
+
+  // Delete one of your comments
+  app.delete("/api/notes/:id/comments/:commentId", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const commentId = parseInt(req.params.commentId);
+      const deleted = await storage.deleteNoteComment(noteId, commentId, req.session.userId!);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Comentário não encontrado" });
+      }
+
+      res.json({ message: "Comentário excluído" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao excluir comentário" });
+    }
+  });
+
+  // Upload one file (multipart field "file") to a note
+  app.post("/api/notes/:id/attachments", requireAuth, requireNoteWrite, async (req, res) => {
+    let storageKey: string | undefined;
+    try {
+      const noteId = parseInt(req.params.id);
+      // Before reading the body, so notes the user cannot see cost no upload
+      if (!await storage.getNote(noteId, req.session.userId!)) {
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+      const file = await receiveUpload(req, res);
+      if (!file) {
+        return res.status(400).json({ message: "Nenhum arquivo enviado" });
+      }
+
+      storageKey = `${req.session.userId}/${randomUUID()}`;
+      await fileStore.put(storageKey, file.buffer, file.mimetype);
+      const note = await storage.addAttachment(noteId, req.session.userId!, {
+        fileName: fileNameOf(file),
+        contentType: file.mimetype,
+        size: file.size,
+        storageKey,
+      }, quotaBytes());
+
+      if (!note) {
+        await fileStore.delete(storageKey);
+        return res.status(404).json({ message: "Anotação não encontrada" });
+      }
+
+      sendNote(res, note);
+    } catch (error: any) {
+      if (storageKey) {
+        await fileStore.delete(storageKey).catch(() => {});
+      }
+      if (error.name === "MulterError" && error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ message: `O arquivo passa do limite de ${ATTACHMENT_MAX_MB} MB` });
+      }
+      if (error.name === "MulterError") {
+        return res.status(400).json({ message: "Envie um único arquivo no campo \"file\"" });
+      }
+      if (error.name === "AttachmentTypeError") {
+        return res.status(415).json({ message: "Tipo de arquivo não permitido (use imagens, PDF, texto ou CSV)" });
+      }
+      if (error.name === "AttachmentQuotaError") {
+        return res.status(413).json({ message: `Limite de ${ATTACHMENT_QUOTA_MB} MB em anexos atingido. Exclua anexos antigos para enviar mais.` });
+      }
+      res.status(500).json({ message: "Erro ao anexar arquivo" });
+    }
+  });
+
+  // Download an attachment; images also load from here as thumbnails
+  app.get("/api/notes/:id/attachments/:attachmentId", requireAuth, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const attachmentId = parseInt(req.params.attachmentId);
+      const attachment = await storage.getAttachment(noteId, attachmentId, req.session.userId!);
+
+      if (!attachment) {
+        return res.status(404).json({ message: "Anexo não encontrado" });
+      }
+
+      const stream = await fileStore.get(attachment.storageKey);
+      res.attachment(attachment.fileName);
+      res.set({
+        "Content-Type": attachment.contentType,
+        "Content-Length": String(attachment.size),
+        // Uploaded content is never sniffed into something the browser would run
+        "X-Content-Type-Options": "nosniff",
+        // Cached copies are revalidated, so members removed from the list lose access right away
+        "Cache-Control": "private, no-cache",
+      });
+      stream.on("error", () => res.destroy());
+      stream.pipe(res);
+    } catch (error: any) {
+      if (error.name === "FileNotFoundError") {
+        return res.status(404).json({ message: "Arquivo do anexo não encontrado" });
+      }
+      res.status(500).json({ message: "Erro ao baixar anexo" });
+    }
+  });
+
+  // Remove an attachment; the file is deleted right after the response
+  app.delete("/api/notes/:id/attachments/:attachmentId", requireAuth, requireNoteWrite, async (req, res) => {
+    try {
+      const noteId = parseInt(req.params.id);
+      const attachmentId = parseInt(req.params.attachmentId);
+      const note = await storage.removeAttachment(noteId, attachmentId, req.session.userId!);
+
+      if (!note) {
+        return res.status(404).json({ message: "Anexo não encontrado" });
+      }
+
+      removeOrphanedAttachmentsInBackground();
+      sendNote(res, note);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao excluir anexo" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,90 @@
+import type { HighlightSegment } from "@shared/schema";
+
+// Text search configuration created by migrations/0002_notes_search.sql
+export const SEARCH_CONFIG = "portuguese_unaccent";
+
+// Control characters delimit ts_headline matches without rendering any HTML. Notes may contain
+// them too, so they are stripped from the text before highlighting (see withoutHighlightMarks)
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_STOP = "\u0003";
+export const HIGHLIGHT_MARKS = HIGHLIGHT_START + HIGHLIGHT_STOP;
+
+export function withoutHighlightMarks(text: string): string {
+  return text.replace(new RegExp(`[${HIGHLIGHT_MARKS}]`, "g"), "");
+}
+
+// Built with the RegExp constructor: the tsconfig target rejects the `u` flag in literals
+const WORD = "[\\p{L}\\p{N}]+";
+const COMBINING_MARKS = new RegExp("\\p{M}", "gu");
+
+export function searchTerms(query: string): string[] {
+  return query.match(new RegExp(WORD, "gu")) ?? [];
+}
+
+// Every term must match, each as a prefix so results update while typing
+export function toPrefixTsQuery(query: string): string {
+  return searchTerms(query).map((term) => `${term}:*`).join(" & ");
+}
+
+export function toHighlightSegments(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_STOP}`, "gs");
+  let lastIndex = 0;
+
+  for (const match of Array.from(headline.matchAll(pattern))) {
+    if (match.index > lastIndex) {
+      segments.push({ text: headline.slice(lastIndex, match.index), match: false });
+    }
+    segments.push({ text: match[1], match: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < headline.length) {
+    segments.push({ text: headline.slice(lastIndex), match: false });
+  }
+  return segments;
+}
+
+// Lowercase and strip accents per character, keeping offsets aligned with the original text
+export function normalizeForSearch(text: string): string {
+  return Array.from(text, (char) => {
+    const normalized = char.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+    return normalized.length === char.length ? normalized : char;
+  }).join("");
+}
+
+// In-memory counterpart of ts_headline: marks every word starting with one of the terms
+export function highlightTerms(text: string, terms: string[]): HighlightSegment[] {
+  text = withoutHighlightMarks(text);
+  const normalizedTerms = terms.map(normalizeForSearch);
+  let headline = "";
+  let lastIndex = 0;
+
+  for (const word of Array.from(normalizeForSearch(text).matchAll(new RegExp(WORD, "gu")))) {
+    if (!normalizedTerms.some((term) => word[0].startsWith(term))) continue;
+    const end = word.index + word[0].length;
+    headline += text.slice(lastIndex, word.index) + HIGHLIGHT_START + text.slice(word.index, end) + HIGHLIGHT_STOP;
+    lastIndex = end;
+  }
+  return toHighlightSegments(headline + text.slice(lastIndex));
+}
+
+// Characters kept on each side of the first match in body excerpts
+const EXCERPT_RADIUS = 60;
+
+// In-memory counterpart of a single-fragment ts_headline; empty when nothing matches
+export function highlightExcerpt(text: string, terms: string[]): HighlightSegment[] {
+  text = withoutHighlightMarks(text);
+  const normalizedTerms = terms.map(normalizeForSearch);
+  const words = Array.from(normalizeForSearch(text).matchAll(new RegExp(WORD, "gu")));
+  const first = words.find((word) => normalizedTerms.some((term) => word[0].startsWith(term)));
+  if (!first) {
+    return [];
+  }
+
+  const start = Math.max(0, first.index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, first.index + first[0].length + EXCERPT_RADIUS);
+  const segments = highlightTerms(text.slice(start, end), terms);
+  if (start > 0) segments.unshift({ text: "… ", match: false });
+  if (end < text.length) segments.push({ text: " …", match: false });
+  return segments;
+}
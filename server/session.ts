@@ -0,0 +1,27 @@
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import type pg from "pg";
+import { usesMemStorage } from "./storage";
+
+export const SESSION_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+// Expired sessions are deleted every 15 minutes by both stores
+const PRUNE_INTERVAL_SECONDS = 15 * 60;
+
+export async function createSessionStore(): Promise<session.Store> {
+  if (usesMemStorage) {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: PRUNE_INTERVAL_SECONDS * 1000 });
+  }
+
+  const { pool } = await import("./db");
+  const PgStore = connectPgSimple(session);
+  return new PgStore({
+    // Neon's Pool is API-compatible with node-postgres
+    pool: pool as pg.Pool,
+    tableName: "sessions",
+    createTableIfMissing: true,
+    pruneSessionInterval: PRUNE_INTERVAL_SECONDS,
+  });
+}
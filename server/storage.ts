@@ -1,64 +1,2518 @@
-import { users, notes, type User, type InsertUser, type Note, type InsertNote } from "@shared/schema";
-import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import {
+  users, statuses, tags, projects, projectMembers, projectInvites, notes, noteTags, noteItems, noteRevisions, noteComments, attachments,
+  notePriorities, projectRoles, hasProjectRole, statusLabel,
+  type User, type InsertUser, type Status, type InsertStatus, type Tag, type InsertTag, type Project, type InsertProject,
+  type ProjectWithRole, type ProjectRole, type ProjectMember, type ProjectMemberRow, type ProjectInvite, type ProjectInviteRow,
+  type ProjectInviteInput,
+  type Note, type NoteRow, type NoteTag, type NoteAssignee, type NoteItem, type InsertNoteItem, type NotePriority, type InsertNote, type NoteRevision,
+  type NoteListQuery, type NotePage, type NoteSearchQuery, type NoteSearchResult,
+  type MonthSummary, type MonthSummaryQuery, type MonthClose, type MonthCloseResult, type NoteMove, type NoteBoardQuery,
+  type ProjectFilter, type ProjectCounts,
+  type Attachment, type InsertAttachment, type NoteAttachment, type NoteComment, type NoteCommentRow, type InsertNoteComment,
+} from "@shared/schema";
+import { eq, and, or, gt, gte, lt, lte, asc, desc, sql, inArray, isNull, isNotNull, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { encodeCursor, sortValueOf, type NoteCursor } from "./pagination";
+import {
+  SEARCH_CONFIG, HIGHLIGHT_START, HIGHLIGHT_STOP, HIGHLIGHT_MARKS,
+  searchTerms, toPrefixTsQuery, toHighlightSegments, normalizeForSearch, highlightTerms, highlightExcerpt,
+} from "./search";
+import { toRevision, fromSnapshot } from "./revisions";
+import { nextOccurrence } from "@shared/recurrence";
+import { monthRange, shiftMonth } from "@shared/months";
+
+export type NoteListOptions = Omit<NoteListQuery, "after"> & { after?: NoteCursor };
+
+// Viewers of a shared project read its notes; editors and owners also write them
+export type NoteAccess = "read" | "write";
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  // Also seeds the user's default statuses
   createUser(user: InsertUser): Promise<User>;
-  
+
+  getStatuses(userId: number): Promise<Status[]>;
+  createStatus(status: InsertStatus & { userId: number }): Promise<Status>;
+  updateStatus(id: number, userId: number, status: Partial<InsertStatus>): Promise<Status | undefined>;
+  // Throws StatusInUseError while any note, trashed ones included, still uses the status
+  deleteStatus(id: number, userId: number): Promise<boolean>;
+
+  getTags(userId: number): Promise<Tag[]>;
+  createTag(tag: InsertTag & { userId: number }): Promise<Tag>;
+  updateTag(id: number, userId: number, tag: Partial<InsertTag>): Promise<Tag | undefined>;
+  // Also removes the tag from every note
+  deleteTag(id: number, userId: number): Promise<boolean>;
+
+  // Projects the user is a member of, with their role
+  getProjects(userId: number): Promise<ProjectWithRole[]>;
+  getProject(id: number, userId: number): Promise<ProjectWithRole | undefined>;
+  // Also makes the creator its owner
+  createProject(project: InsertProject & { userId: number }): Promise<ProjectWithRole>;
+  // Only owners update or delete a project
+  updateProject(id: number, userId: number, project: Partial<InsertProject>): Promise<ProjectWithRole | undefined>;
+  // The project's notes stay, outside any project, with its creator (they use the creator's statuses)
+  deleteProject(id: number, userId: number): Promise<boolean>;
+  // Active notes not in a done status, per project; `all` counts the user's own workspace
+  getProjectCounts(userId: number): Promise<ProjectCounts>;
+
+  // Members and invites are managed by the routes once they checked the user's role
+  getProjectMembers(projectId: number): Promise<ProjectMember[]>;
+  updateProjectMember(projectId: number, userId: number, role: ProjectRole): Promise<boolean>;
+  removeProjectMember(projectId: number, userId: number): Promise<boolean>;
+  getProjectInvites(projectId: number): Promise<ProjectInvite[]>;
+  // Inviting the same email again replaces the pending invite
+  createProjectInvite(invite: ProjectInviteInput & { projectId: number; invitedById: number }): Promise<ProjectInvite>;
+  deleteProjectInvite(projectId: number, inviteId: number): Promise<boolean>;
+  // The invites addressed to a user, who accepts or declines them
+  getInvitesForEmail(email: string): Promise<ProjectInvite[]>;
+  acceptProjectInvite(inviteId: number, user: User): Promise<ProjectWithRole | undefined>;
+  declineProjectInvite(inviteId: number, user: User): Promise<boolean>;
+  // The user's role on a note, trashed ones included: "owner" of their notes outside every project,
+  // their member role for a project's notes, undefined without access
+  getNoteRole(noteId: number, userId: number): Promise<ProjectRole | undefined>;
+
+  // Note methods reach the notes the user can read (NoteAccess); changing a note needs write access
   getNotesByUserId(userId: number): Promise<Note[]>;
+  getNote(id: number, userId: number): Promise<Note | undefined>;
+  listNotes(userId: number, options: NoteListOptions): Promise<NotePage>;
+  // Every matching note for the board, in position order
+  getBoardNotes(userId: number, query: NoteBoardQuery): Promise<Note[]>;
+  searchNotes(userId: number, query: NoteSearchQuery): Promise<NoteSearchResult[]>;
   createNote(note: InsertNote & { userId: number }): Promise<Note>;
-  updateNote(id: number, userId: number, note: Partial<InsertNote>): Promise<Note | undefined>;
-  deleteNote(id: number, userId: number): Promise<boolean>;
+  // With expectedVersion, both throw NoteVersionConflictError when the note has moved on
+  updateNote(id: number, userId: number, note: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined>;
+  deleteNote(id: number, userId: number, expectedVersion?: number): Promise<boolean>;
+  // Renumbers the target column in one go, as far as the user can see it; a new status counts as an update
+  // (completion, version, revision) and throws NoteVersionConflictError on a stale expectedVersion, reordering
+  // never does. Throws NoteMoveError when beforeId is not in that column
+  moveNote(id: number, userId: number, move: NoteMove, expectedVersion?: number): Promise<Note | undefined>;
+
+  // Checklist changes answer with the whole note; undefined when the note or item is not found
+  addNoteItem(noteId: number, userId: number, item: InsertNoteItem): Promise<Note | undefined>;
+  // Checking the last open item moves the note to a done status when completeWhenChecked is set
+  updateNoteItem(noteId: number, itemId: number, userId: number, item: Partial<InsertNoteItem>): Promise<Note | undefined>;
+  // Throws NoteItemOrderError unless itemIds lists every item of the note exactly once
+  reorderNoteItems(noteId: number, userId: number, itemIds: number[]): Promise<Note | undefined>;
+  deleteNoteItem(noteId: number, itemId: number, userId: number): Promise<Note | undefined>;
+
+  // Oldest first; undefined when the note is not found. Only the author edits or deletes a comment
+  getNoteComments(noteId: number, userId: number): Promise<NoteComment[] | undefined>;
+  addNoteComment(noteId: number, userId: number, comment: InsertNoteComment): Promise<NoteComment | undefined>;
+  updateNoteComment(noteId: number, commentId: number, userId: number, comment: InsertNoteComment): Promise<NoteComment | undefined>;
+  deleteNoteComment(noteId: number, commentId: number, userId: number): Promise<boolean>;
+
+  // Attachment changes also answer with the whole note; the bytes are handled by the file store
+  getAttachment(noteId: number, attachmentId: number, userId: number): Promise<Attachment | undefined>;
+  // Throws AttachmentQuotaError when the user's files would exceed quotaBytes
+  addAttachment(noteId: number, userId: number, attachment: InsertAttachment, quotaBytes: number): Promise<Note | undefined>;
+  // Detaches the attachment; its file and row go on the next removeOrphanedAttachments run
+  removeAttachment(noteId: number, attachmentId: number, userId: number): Promise<Note | undefined>;
+  // Attachments whose note was removed or purged, for server/attachments.ts to clean up
+  getOrphanedAttachments(): Promise<Attachment[]>;
+  deleteAttachments(ids: number[]): Promise<void>;
+
+  getTrashedNotes(userId: number): Promise<Note[]>;
+  restoreNote(id: number, userId: number): Promise<Note | undefined>;
+  purgeNote(id: number, userId: number): Promise<boolean>;
+  purgeTrashedNotes(deletedBefore: Date): Promise<number>;
+
+  getNoteRevisions(noteId: number, userId: number): Promise<NoteRevision[]>;
+  restoreNoteRevision(noteId: number, revisionId: number, userId: number): Promise<Note | undefined>;
+
+  // Counts of the active notes created in the month; overdue is relative to `today` (AAAA-MM-DD)
+  getMonthSummary(userId: number, query: MonthSummaryQuery, today: string): Promise<MonthSummary>;
+  // Moves or copies every open note created in the month to the first day of the next one.
+  // Notes remember the month they came from; copying twice skips notes already copied
+  closeMonth(userId: number, close: MonthClose): Promise<MonthCloseResult>;
+
+  // Creates the next occurrence of every recurring series whose next period has begun by `today`
+  // (AAAA-MM-DD); completing an occurrence creates the next one right away. Returns how many were created
+  spawnDueOccurrences(today: string): Promise<number>;
+}
+
+export class NoteVersionConflictError extends Error {
+  name = "NoteVersionConflictError";
+
+  constructor(public current: Note) {
+    super("A anotação foi alterada em outra sessão");
+  }
+}
+
+export class StatusInUseError extends Error {
+  name = "StatusInUseError";
+
+  constructor() {
+    super("O status ainda é usado por anotações");
+  }
+}
+
+export class NoteItemOrderError extends Error {
+  name = "NoteItemOrderError";
+
+  constructor() {
+    super("A nova ordem não corresponde aos itens da anotação");
+  }
+}
+
+export class AttachmentQuotaError extends Error {
+  name = "AttachmentQuotaError";
+
+  constructor() {
+    super("O limite de anexos do usuário foi atingido");
+  }
+}
+
+export class NoteMoveError extends Error {
+  name = "NoteMoveError";
+
+  constructor() {
+    super("A anotação de referência não está na coluna de destino");
+  }
+}
+
+export const defaultStatuses: InsertStatus[] = [
+  { name: null, color: "#f59e0b", order: 0, code: "todo" },
+  { name: null, color: "#16a34a", order: 1, code: "done" },
+];
+
+// Fetches one row past the limit to know whether another page exists
+function toPage(rows: Note[], options: NoteListOptions): NotePage {
+  const items = rows.slice(0, options.limit);
+  const hasMore = rows.length > options.limit;
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1], options.sort) : null,
+  };
+}
+
+function toNote(
+  row: NoteRow,
+  status: Status,
+  assignee: NoteAssignee | null,
+  noteTags: NoteTag[],
+  items: NoteItem[],
+  noteAttachments: NoteAttachment[],
+  commentCount: number,
+): Note {
+  return {
+    ...row,
+    status: { code: status.code, label: statusLabel(status) },
+    assignee,
+    tags: noteTags,
+    items,
+    attachments: noteAttachments,
+    commentCount,
+  };
+}
+
+// Storage keys and owners stay on the server
+function toNoteAttachment({ id, fileName, contentType, size, createdAt }: Attachment): NoteAttachment {
+  return { id, fileName, contentType, size, createdAt };
+}
+
+function byName(a: NoteTag, b: NoteTag) {
+  return a.name.localeCompare(b.name, "pt-BR");
+}
+
+function byPosition(a: NoteItem, b: NoteItem) {
+  return a.position - b.position || a.id - b.id;
+}
+
+function isSameIdSet(ids: number[], otherIds: number[]) {
+  const set = new Set(ids);
+  return ids.length === otherIds.length && set.size === new Set(otherIds).size && otherIds.every((id) => set.has(id));
+}
+
+// Keyset condition for rows after (value, tie-break) when nulls sort last in both
+// directions: a null value means the page ended inside that trailing block
+function pastNullsLast(column: PgColumn, value: unknown, past: typeof gt, tieBreak: SQL | undefined) {
+  if (value === null) {
+    return and(isNull(column), tieBreak);
+  }
+  return or(past(column, value), and(eq(column, value), tieBreak), isNull(column));
+}
+
+function isDoneStatus(statusId: number): SQL {
+  return sql`(select ${statuses.code} = 'done' from ${statuses} where ${statuses.id} = ${statusId})`;
+}
+
+// Moving to a done status keeps an existing completedAt; reopening clears it
+function completionFor(statusId: number): SQL {
+  return sql`case when ${isDoneStatus(statusId)}
+    then coalesce(${notes.completedAt}, ${new Date().toISOString()}::timestamp) end`;
+}
+
+// Next free position at the end of a status column. Statuses belong to one user, so the column
+// also holds the notes of the projects that use that user's statuses
+function endOfColumn(statusId: number): SQL<number> {
+  return sql`(select coalesce(max(${notes.position}) + 1, 0) from ${notes} where ${notes.statusId} = ${statusId})`;
+}
+
+// The user whose statuses a note uses: the owner of its current status
+function workflowOwnerOf(statusId: number): SQL<number> {
+  return sql`(select ${statuses.userId} from ${statuses} where ${statuses.id} = ${statusId})`;
+}
+
+// Ids of the projects where the user has at least the role
+function projectsOf(userId: number, minRole: ProjectRole): SQL {
+  const roles = projectRoles.slice(projectRoles.indexOf(minRole));
+  return sql`(select ${projectMembers.projectId} from ${projectMembers}
+    where ${and(eq(projectMembers.userId, userId), inArray(projectMembers.role, roles))})`;
+}
+
+// Notes a user can read or write: their own notes outside every project, and the notes of
+// the projects they are a member of (viewers only read)
+function accessibleBy(userId: number, access: NoteAccess): SQL {
+  return sql`((${notes.projectId} is null and ${notes.userId} = ${userId})
+    or ${notes.projectId} in ${projectsOf(userId, access === "write" ? "editor" : "viewer")})`;
+}
+
+// What a view shows: one project, the user's notes outside every project ("none"), or their whole
+// workspace (undefined), which adds the projects they created. Projects shared with them by
+// others only show up when picked. Combine with accessibleBy
+function inProject(filter: ProjectFilter | undefined, userId: number): SQL {
+  if (filter === undefined) {
+    return sql`((${notes.projectId} is null and ${notes.userId} = ${userId}) or ${notes.projectId} in
+      (select ${projects.id} from ${projects} where ${projects.userId} = ${userId}))`;
+  }
+  return filter === "none" ? and(isNull(notes.projectId), eq(notes.userId, userId))! : eq(notes.projectId, filter);
+}
+
+// What a list or board shows: inProject, or with assignee "me" the notes assigned to the user, which
+// reach past the workspace into the projects shared with them unless one project is picked
+function inNoteView({ projectId, assignee }: Pick<NoteListQuery, "projectId" | "assignee">, userId: number): SQL {
+  if (!assignee) {
+    return inProject(projectId, userId);
+  }
+  return and(eq(notes.assigneeId, userId), projectId === undefined ? undefined : inProject(projectId, userId))!;
+}
+
+// Whether the user can be assigned a note of the project: as a member, or as the note's creator outside every project
+async function canBeAssigned(db: Pick<Db, "select">, userId: number, projectId: number | null, noteUserId: number): Promise<boolean> {
+  if (projectId === null) {
+    return userId === noteUserId;
+  }
+  const [member] = await db
+    .select({ userId: projectMembers.userId })
+    .from(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+  return !!member;
+}
+
+// Projects the user manages
+function ownedBy(userId: number): SQL {
+  return sql`${projects.id} in ${projectsOf(userId, "owner")}`;
+}
+
+// What a revision restore brings back of the snapshot's project and status. A note uses the statuses
+// of its project's creator (its own creator's outside every project), so the pair must agree: the
+// project counts while the user can still write to it, the status while it belongs to that workflow.
+// Owners are undefined when the project or status is gone
+function restorable(
+  { projectOwnerId, statusOwnerId }: { projectOwnerId?: number; statusOwnerId?: number },
+  currentWorkflowId: number,
+): { project: boolean; status: boolean } {
+  if (projectOwnerId !== undefined && statusOwnerId === projectOwnerId) {
+    return { project: true, status: true };
+  }
+  if (projectOwnerId === currentWorkflowId) {
+    return { project: true, status: false };
+  }
+  return { project: false, status: statusOwnerId === currentWorkflowId };
+}
+
+// A note outside every project belongs to its creator alone; otherwise the member's role decides
+function noteRole(note: { userId: number; projectId: number | null; role: ProjectRole | null }, userId: number): ProjectRole | undefined {
+  if (note.projectId === null) {
+    return note.userId === userId ? "owner" : undefined;
+  }
+  return note.role ?? undefined;
+}
+
+function toProjectCounts(counts: { projectId: number | null; count: number }[], ownProjectIds: Set<number>): ProjectCounts {
+  return {
+    all: counts
+      .filter((row) => row.projectId === null || ownProjectIds.has(row.projectId))
+      .reduce((total, row) => total + row.count, 0),
+    none: counts.find((row) => row.projectId === null)?.count ?? 0,
+    byProject: counts.flatMap(({ projectId, count }) => (projectId === null ? [] : [{ projectId, count }])),
+  };
+}
+
+interface MonthStatusCount {
+  statusId: number;
+  count: number;
+  overdue: number;
+  carriedOver: number;
+}
+
+function toMonthSummary(month: string, counts: MonthStatusCount[], userStatuses: Status[]): MonthSummary {
+  const openCounts = counts.filter((row) => userStatuses.find((status) => status.id === row.statusId)?.code !== "done");
+  const sum = (rows: MonthStatusCount[], key: "count" | "overdue" | "carriedOver") => rows.reduce((total, row) => total + row[key], 0);
+  const statusOrder = (statusId: number) => userStatuses.findIndex((status) => status.id === statusId);
+  return {
+    month,
+    total: sum(counts, "count"),
+    open: sum(openCounts, "count"),
+    done: sum(counts, "count") - sum(openCounts, "count"),
+    overdue: sum(openCounts, "overdue"),
+    carriedOver: sum(counts, "carriedOver"),
+    byStatus: counts
+      .map(({ statusId, count }) => ({ statusId, count }))
+      .sort((a, b) => statusOrder(a.statusId) - statusOrder(b.statusId)),
+  };
+}
+
+// db.ts throws without DATABASE_URL, so it is only imported once DatabaseStorage is used
+let dbModule: Promise<typeof import("./db")> | undefined;
+
+async function getDb() {
+  dbModule ??= import("./db");
+  return (await dbModule).db;
+}
+
+type Db = typeof import("./db").db;
+
+// Looks up the statuses, assignees, tags and items of the rows in one query each; works inside transactions too
+async function withDetails(db: Pick<Db, "select">, rows: NoteRow[]): Promise<Note[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const statusIds = Array.from(new Set(rows.map((row) => row.statusId)));
+  const rowStatuses = await db.select().from(statuses).where(inArray(statuses.id, statusIds));
+  const statusById = new Map(rowStatuses.map((status) => [status.id, status]));
+
+  const assigneeIds = Array.from(new Set(rows.flatMap((row) => (row.assigneeId === null ? [] : [row.assigneeId]))));
+  const rowAssignees = assigneeIds.length > 0
+    ? await db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, assigneeIds))
+    : [];
+  const assigneeById = new Map(rowAssignees.map((assignee) => [assignee.id, assignee]));
+
+  const rowTags = await db
+    .select({ noteId: noteTags.noteId, id: tags.id, name: tags.name, color: tags.color })
+    .from(noteTags)
+    .innerJoin(tags, eq(tags.id, noteTags.tagId))
+    .where(inArray(noteTags.noteId, rows.map((row) => row.id)));
+  const tagsByNoteId = new Map<number, NoteTag[]>();
+  for (const { noteId, ...tag } of rowTags) {
+    tagsByNoteId.set(noteId, [...(tagsByNoteId.get(noteId) ?? []), tag]);
+  }
+
+  const rowItems = await db
+    .select()
+    .from(noteItems)
+    .where(inArray(noteItems.noteId, rows.map((row) => row.id)))
+    .orderBy(asc(noteItems.position), asc(noteItems.id));
+  const itemsByNoteId = new Map<number, NoteItem[]>();
+  for (const item of rowItems) {
+    itemsByNoteId.set(item.noteId, [...(itemsByNoteId.get(item.noteId) ?? []), item]);
+  }
+
+  const rowAttachments = await db
+    .select()
+    .from(attachments)
+    .where(inArray(attachments.noteId, rows.map((row) => row.id)))
+    .orderBy(asc(attachments.id));
+  const attachmentsByNoteId = new Map<number, NoteAttachment[]>();
+  for (const attachment of rowAttachments) {
+    attachmentsByNoteId.set(attachment.noteId!, [...(attachmentsByNoteId.get(attachment.noteId!) ?? []), toNoteAttachment(attachment)]);
+  }
+
+  const commentCounts = await db
+    .select({ noteId: noteComments.noteId, count: sql<number>`count(*)::integer` })
+    .from(noteComments)
+    .where(inArray(noteComments.noteId, rows.map((row) => row.id)))
+    .groupBy(noteComments.noteId);
+  const commentCountByNoteId = new Map(commentCounts.map(({ noteId, count }) => [noteId, count]));
+
+  return rows.map((row) => toNote(
+    row,
+    statusById.get(row.statusId)!,
+    row.assigneeId === null ? null : assigneeById.get(row.assigneeId)!,
+    (tagsByNoteId.get(row.id) ?? []).sort(byName),
+    itemsByNoteId.get(row.id) ?? [],
+    attachmentsByNoteId.get(row.id) ?? [],
+    commentCountByNoteId.get(row.id) ?? 0,
+  ));
+}
+
+async function getActiveNote(db: Pick<Db, "select">, id: number, userId: number, access: NoteAccess): Promise<NoteRow | undefined> {
+  const [note] = await db
+    .select()
+    .from(notes)
+    .where(and(eq(notes.id, id), accessibleBy(userId, access), isNull(notes.deletedAt)));
+  return note;
+}
+
+async function withAuthor(db: Pick<Db, "select">, comment: NoteCommentRow): Promise<NoteComment> {
+  const [author] = await db.select({ id: users.id, name: users.name }).from(users).where(eq(users.id, comment.userId));
+  return { ...comment, author };
+}
+
+async function withInviteDetails(db: Pick<Db, "select">, rows: ProjectInviteRow[]): Promise<ProjectInvite[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+  const rowProjects = await db
+    .select({ id: projects.id, name: projects.name, color: projects.color })
+    .from(projects)
+    .where(inArray(projects.id, rows.map((row) => row.projectId)));
+  const inviters = await db
+    .select({ id: users.id, name: users.name })
+    .from(users)
+    .where(inArray(users.id, rows.map((row) => row.invitedById)));
+  return rows.map((row) => ({
+    ...row,
+    project: rowProjects.find((project) => project.id === row.projectId)!,
+    invitedBy: inviters.find((user) => user.id === row.invitedById)!,
+  }));
+}
+
+// Locks the note so concurrent checklist changes see each other's positions and completion
+async function lockActiveNote(tx: Pick<Db, "select">, id: number, userId: number): Promise<NoteRow | undefined> {
+  const [note] = await tx
+    .select()
+    .from(notes)
+    .where(and(eq(notes.id, id), accessibleBy(userId, "write"), isNull(notes.deletedAt)))
+    .for("update");
+  return note;
+}
+
+// Moves the note to the first done status of its workflow once it has items and none is open
+async function completeWhenAllChecked(tx: Pick<Db, "select" | "update" | "insert">, note: NoteRow, actorId: number): Promise<NoteRow> {
+  if (!note.completeWhenChecked) {
+    return note;
+  }
+  const items = await tx.select({ done: noteItems.done }).from(noteItems).where(eq(noteItems.noteId, note.id));
+  if (items.length === 0 || items.some((item) => !item.done)) {
+    return note;
+  }
+
+  const userStatuses = await tx
+    .select()
+    .from(statuses)
+    .where(eq(statuses.userId, workflowOwnerOf(note.statusId)))
+    .orderBy(asc(statuses.order), asc(statuses.id));
+  const doneStatus = userStatuses.find((status) => status.code === "done");
+  if (!doneStatus || userStatuses.find((status) => status.id === note.statusId)?.code === "done") {
+    return note;
+  }
+
+  const [completedNote] = await tx
+    .update(notes)
+    .set({
+      statusId: doneStatus.id,
+      completedAt: new Date(),
+      position: endOfColumn(doneStatus.id),
+      version: sql`${notes.version} + 1`,
+    })
+    .where(eq(notes.id, note.id))
+    .returning();
+  await tx.insert(noteRevisions).values(toRevision(completedNote, "update", actorId));
+  return spawnIfCompleted(tx, completedNote, actorId);
+}
+
+type NoteCopyValues = Pick<typeof notes.$inferInsert, "createdDate" | "dueDate" | "statusId"> & Partial<typeof notes.$inferInsert>;
+
+// Inserts a new note with the content, tags and checklist of `note` (items unchecked with resetItems)
+// and records its "create" revision as made by actorId
+async function insertNoteCopy(
+  tx: Pick<Db, "select" | "insert">,
+  note: NoteRow,
+  values: NoteCopyValues,
+  { resetItems, actorId }: { resetItems: boolean; actorId: number },
+): Promise<NoteRow> {
+  const { userId, title, body, priority, completeWhenChecked, projectId, assigneeId } = note;
+  const [copy] = await tx
+    .insert(notes)
+    .values({ userId, title, body, priority, completeWhenChecked, projectId, assigneeId, position: endOfColumn(values.statusId), ...values })
+    .returning();
+  const tagIds = await tx.select({ tagId: noteTags.tagId }).from(noteTags).where(eq(noteTags.noteId, note.id));
+  if (tagIds.length > 0) {
+    await tx.insert(noteTags).values(tagIds.map(({ tagId }) => ({ noteId: copy.id, tagId })));
+  }
+  const items = await tx.select().from(noteItems).where(eq(noteItems.noteId, note.id));
+  if (items.length > 0) {
+    await tx.insert(noteItems).values(items.map(({ text, done, position }) => ({ noteId: copy.id, text, position, done: !resetItems && done })));
+  }
+  await tx.insert(noteRevisions).values(toRevision(copy, "create", actorId));
+  return copy;
+}
+
+// Copies a completed or due occurrence into the next one: same content, unchecked items, first open status.
+// Expects the note to be locked by the caller; returns it with nextOccurrenceId set, or unchanged when
+// the series has ended, already moved on, or its workflow has no open status to start from
+async function spawnNextOccurrence(tx: Pick<Db, "select" | "update" | "insert">, note: NoteRow, actorId: number): Promise<NoteRow> {
+  const dates = note.nextOccurrenceId === null && !note.deletedAt ? nextOccurrence(note) : null;
+  if (!dates) {
+    return note;
+  }
+  const [openStatus] = await tx
+    .select()
+    .from(statuses)
+    .where(and(eq(statuses.userId, workflowOwnerOf(note.statusId)), eq(statuses.code, "todo")))
+    .orderBy(asc(statuses.order), asc(statuses.id))
+    .limit(1);
+  if (!openStatus) {
+    return note;
+  }
+
+  const nextNote = await insertNoteCopy(tx, note, {
+    ...dates,
+    statusId: openStatus.id,
+    recurrence: note.recurrence,
+    occurrence: note.occurrence + 1,
+  }, { resetItems: true, actorId });
+
+  // Series bookkeeping, not an edit: the version stays so open editors don't see a conflict
+  const [updatedNote] = await tx
+    .update(notes)
+    .set({ nextOccurrenceId: nextNote.id })
+    .where(eq(notes.id, note.id))
+    .returning();
+  return updatedNote;
+}
+
+// Completed recurring notes move their series on immediately
+async function spawnIfCompleted(tx: Pick<Db, "select" | "update" | "insert">, note: NoteRow, actorId: number): Promise<NoteRow> {
+  return note.completedAt ? spawnNextOccurrence(tx, note, actorId) : note;
+}
+
+async function replaceNoteTags(tx: Pick<Db, "insert" | "delete">, noteId: number, tagIds: number[]) {
+  await tx.delete(noteTags).where(eq(noteTags.noteId, noteId));
+  if (tagIds.length > 0) {
+    await tx.insert(noteTags).values(tagIds.map((tagId) => ({ noteId, tagId })));
+  }
 }
 
 export class DatabaseStorage implements IStorage {
   async getUser(id: number): Promise<User | undefined> {
+    const db = await getDb();
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
+    const db = await getDb();
     const [user] = await db.select().from(users).where(eq(users.email, email));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(insertUser)
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values(insertUser)
+        .returning();
+      await tx.insert(statuses).values(defaultStatuses.map((status) => ({ ...status, userId: user.id })));
+      return user;
+    });
+  }
+
+  async getStatuses(userId: number): Promise<Status[]> {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(statuses)
+      .where(eq(statuses.userId, userId))
+      .orderBy(asc(statuses.order), asc(statuses.id));
+  }
+
+  async createStatus(status: InsertStatus & { userId: number }): Promise<Status> {
+    const db = await getDb();
+    const [newStatus] = await db
+      .insert(statuses)
+      .values(status)
       .returning();
-    return user;
+    return newStatus;
   }
 
-  async getNotesByUserId(userId: number): Promise<Note[]> {
-    return await db.select().from(notes).where(eq(notes.userId, userId));
+  async updateStatus(id: number, userId: number, statusUpdate: Partial<InsertStatus>): Promise<Status | undefined> {
+    const db = await getDb();
+    const [updatedStatus] = await db
+      .update(statuses)
+      .set(statusUpdate)
+      .where(and(eq(statuses.id, id), eq(statuses.userId, userId)))
+      .returning();
+    return updatedStatus || undefined;
   }
 
-  async createNote(note: InsertNote & { userId: number }): Promise<Note> {
-    const [newNote] = await db
-      .insert(notes)
-      .values(note)
+  async deleteStatus(id: number, userId: number): Promise<boolean> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      // Ownership first, so other users' statuses look missing rather than in use
+      const [status] = await tx
+        .select({ id: statuses.id })
+        .from(statuses)
+        .where(and(eq(statuses.id, id), eq(statuses.userId, userId)))
+        .for("update");
+      if (!status) {
+        return false;
+      }
+
+      const [inUse] = await tx
+        .select({ id: notes.id })
+        .from(notes)
+        .where(eq(notes.statusId, id))
+        .limit(1);
+      if (inUse) {
+        throw new StatusInUseError();
+      }
+
+      const result = await tx.delete(statuses).where(eq(statuses.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  async getTags(userId: number): Promise<Tag[]> {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(tags)
+      .where(eq(tags.userId, userId))
+      .orderBy(asc(tags.name));
+  }
+
+  async createTag(tag: InsertTag & { userId: number }): Promise<Tag> {
+    const db = await getDb();
+    const [newTag] = await db
+      .insert(tags)
+      .values(tag)
+      .returning();
+    return newTag;
+  }
+
+  async updateTag(id: number, userId: number, tagUpdate: Partial<InsertTag>): Promise<Tag | undefined> {
+    const db = await getDb();
+    const [updatedTag] = await db
+      .update(tags)
+      .set(tagUpdate)
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)))
       .returning();
-    return newNote;
+    return updatedTag || undefined;
+  }
+
+  async deleteTag(id: number, userId: number): Promise<boolean> {
+    const db = await getDb();
+    const result = await db
+      .delete(tags)
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getProjects(userId: number): Promise<ProjectWithRole[]> {
+    const db = await getDb();
+    const rows = await db
+      .select({ project: projects, role: projectMembers.role })
+      .from(projects)
+      .innerJoin(projectMembers, eq(projectMembers.projectId, projects.id))
+      .where(eq(projectMembers.userId, userId))
+      .orderBy(asc(projects.name));
+    return rows.map(({ project, role }) => ({ ...project, role }));
   }
 
-  async updateNote(id: number, userId: number, noteUpdate: Partial<InsertNote>): Promise<Note | undefined> {
-    const [updatedNote] = await db
-      .update(notes)
-      .set(noteUpdate)
-      .where(and(eq(notes.id, id), eq(notes.userId, userId)))
+  async getProject(id: number, userId: number): Promise<ProjectWithRole | undefined> {
+    const db = await getDb();
+    const [row] = await db
+      .select({ project: projects, role: projectMembers.role })
+      .from(projects)
+      .innerJoin(projectMembers, eq(projectMembers.projectId, projects.id))
+      .where(and(eq(projects.id, id), eq(projectMembers.userId, userId)));
+    return row && { ...row.project, role: row.role };
+  }
+
+  async createProject(project: InsertProject & { userId: number }): Promise<ProjectWithRole> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const [newProject] = await tx
+        .insert(projects)
+        .values(project)
+        .returning();
+      await tx.insert(projectMembers).values({ projectId: newProject.id, userId: project.userId, role: "owner" });
+      return { ...newProject, role: "owner" as const };
+    });
+  }
+
+  async updateProject(id: number, userId: number, projectUpdate: Partial<InsertProject>): Promise<ProjectWithRole | undefined> {
+    const db = await getDb();
+    const [updatedProject] = await db
+      .update(projects)
+      .set(projectUpdate)
+      .where(and(eq(projects.id, id), ownedBy(userId)))
       .returning();
-    return updatedNote || undefined;
+    return updatedProject && { ...updatedProject, role: "owner" };
+  }
+
+  async deleteProject(id: number, userId: number): Promise<boolean> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const [project] = await tx.select().from(projects).where(and(eq(projects.id, id), ownedBy(userId)));
+      if (!project) {
+        return false;
+      }
+      // Outside the project only its creator can still be assigned the notes
+      await tx
+        .update(notes)
+        .set({ userId: project.userId, assigneeId: sql`case when ${notes.assigneeId} = ${project.userId} then ${notes.assigneeId} end` })
+        .where(eq(notes.projectId, id));
+      await tx.delete(projects).where(eq(projects.id, id));
+      return true;
+    });
+  }
+
+  async getProjectCounts(userId: number): Promise<ProjectCounts> {
+    const db = await getDb();
+    const counts = await db
+      .select({ projectId: notes.projectId, count: sql<number>`count(*)::int` })
+      .from(notes)
+      .innerJoin(statuses, eq(statuses.id, notes.statusId))
+      .where(and(accessibleBy(userId, "read"), isNull(notes.deletedAt), eq(statuses.code, "todo")))
+      .groupBy(notes.projectId);
+    const ownProjects = await db.select({ id: projects.id }).from(projects).where(eq(projects.userId, userId));
+    return toProjectCounts(counts, new Set(ownProjects.map((project) => project.id)));
+  }
+
+  async getProjectMembers(projectId: number): Promise<ProjectMember[]> {
+    const db = await getDb();
+    const rows = await db
+      .select({ member: projectMembers, user: { id: users.id, name: users.name, email: users.email } })
+      .from(projectMembers)
+      .innerJoin(users, eq(users.id, projectMembers.userId))
+      .where(eq(projectMembers.projectId, projectId))
+      .orderBy(asc(users.name), asc(users.id));
+    return rows.map(({ member, user }) => ({ ...member, user }));
   }
 
-  async deleteNote(id: number, userId: number): Promise<boolean> {
+  async updateProjectMember(projectId: number, userId: number, role: ProjectRole): Promise<boolean> {
+    const db = await getDb();
+    const result = await db
+      .update(projectMembers)
+      .set({ role })
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Whoever leaves also stops being the assignee of the project's notes
+  async removeProjectMember(projectId: number, userId: number): Promise<boolean> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const result = await tx
+        .delete(projectMembers)
+        .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+      await tx
+        .update(notes)
+        .set({ assigneeId: null })
+        .where(and(eq(notes.projectId, projectId), eq(notes.assigneeId, userId)));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  async getProjectInvites(projectId: number): Promise<ProjectInvite[]> {
+    const db = await getDb();
+    const rows = await db.select().from(projectInvites).where(eq(projectInvites.projectId, projectId)).orderBy(asc(projectInvites.id));
+    return withInviteDetails(db, rows);
+  }
+
+  async getInvitesForEmail(email: string): Promise<ProjectInvite[]> {
+    const db = await getDb();
+    const rows = await db.select().from(projectInvites).where(eq(projectInvites.email, email)).orderBy(asc(projectInvites.id));
+    return withInviteDetails(db, rows);
+  }
+
+  async createProjectInvite(invite: ProjectInviteInput & { projectId: number; invitedById: number }): Promise<ProjectInvite> {
+    const db = await getDb();
+    const [newInvite] = await db
+      .insert(projectInvites)
+      .values(invite)
+      .onConflictDoUpdate({
+        target: [projectInvites.projectId, projectInvites.email],
+        set: { role: invite.role, invitedById: invite.invitedById, createdAt: new Date() },
+      })
+      .returning();
+    const [result] = await withInviteDetails(db, [newInvite]);
+    return result;
+  }
+
+  async deleteProjectInvite(projectId: number, inviteId: number): Promise<boolean> {
+    const db = await getDb();
+    const result = await db
+      .delete(projectInvites)
+      .where(and(eq(projectInvites.id, inviteId), eq(projectInvites.projectId, projectId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async acceptProjectInvite(inviteId: number, user: User): Promise<ProjectWithRole | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const [invite] = await tx
+        .delete(projectInvites)
+        .where(and(eq(projectInvites.id, inviteId), eq(projectInvites.email, user.email)))
+        .returning();
+      if (!invite) {
+        return undefined;
+      }
+      // Someone already in the project keeps their role
+      await tx
+        .insert(projectMembers)
+        .values({ projectId: invite.projectId, userId: user.id, role: invite.role })
+        .onConflictDoNothing();
+      const [row] = await tx
+        .select({ project: projects, role: projectMembers.role })
+        .from(projects)
+        .innerJoin(projectMembers, eq(projectMembers.projectId, projects.id))
+        .where(and(eq(projects.id, invite.projectId), eq(projectMembers.userId, user.id)));
+      return { ...row.project, role: row.role };
+    });
+  }
+
+  async declineProjectInvite(inviteId: number, user: User): Promise<boolean> {
+    const db = await getDb();
+    const result = await db
+      .delete(projectInvites)
+      .where(and(eq(projectInvites.id, inviteId), eq(projectInvites.email, user.email)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getNoteRole(noteId: number, userId: number): Promise<ProjectRole | undefined> {
+    const db = await getDb();
+    const [row] = await db
+      .select({ userId: notes.userId, projectId: notes.projectId, role: projectMembers.role })
+      .from(notes)
+      .leftJoin(projectMembers, and(eq(projectMembers.projectId, notes.projectId), eq(projectMembers.userId, userId)))
+      .where(eq(notes.id, noteId));
+    return row && noteRole(row, userId);
+  }
+
+  async getNotesByUserId(userId: number): Promise<Note[]> {
+    const db = await getDb();
+    const rows = await db.select().from(notes).where(and(accessibleBy(userId, "read"), isNull(notes.deletedAt)));
+    return withDetails(db, rows);
+  }
+
+  async getNote(id: number, userId: number): Promise<Note | undefined> {
+    const db = await getDb();
+    const note = await getActiveNote(db, id, userId, "read");
+    if (!note) {
+      return undefined;
+    }
+    const [result] = await withDetails(db, [note]);
+    return result;
+  }
+
+  async getBoardNotes(userId: number, query: NoteBoardQuery): Promise<Note[]> {
+    const db = await getDb();
+    const conditions: (SQL | undefined)[] = [
+      accessibleBy(userId, "read"), isNull(notes.deletedAt), inNoteView(query, userId),
+    ];
+    if (query.month) {
+      const { from, to } = monthRange(query.month);
+      conditions.push(gte(notes.createdDate, from), lte(notes.createdDate, to));
+    }
+    if (query.tagIds) {
+      conditions.push(inArray(notes.id, db
+        .select({ id: noteTags.noteId })
+        .from(noteTags)
+        .where(inArray(noteTags.tagId, query.tagIds))));
+    }
+    const rows = await db
+      .select()
+      .from(notes)
+      .where(and(...conditions))
+      .orderBy(asc(notes.position), asc(notes.id));
+    return withDetails(db, rows);
+  }
+
+  async listNotes(userId: number, options: NoteListOptions): Promise<NotePage> {
+    const db = await getDb();
+    const column = notes[options.sort];
+    const direction = options.order === "asc" ? asc : desc;
+    const pastCursor = options.order === "asc" ? gt : lt;
+    const completedOn = sql<string>`${notes.completedAt}::date`;
+    const scheduledOn = sql<string>`coalesce(${notes.dueDate}, ${notes.createdDate})`;
+
+    const conditions: (SQL | undefined)[] = [
+      accessibleBy(userId, "read"), isNull(notes.deletedAt), inNoteView(options, userId),
+    ];
+    if (options.statusId) conditions.push(eq(notes.statusId, options.statusId));
+    if (options.status) {
+      conditions.push(inArray(notes.statusId, db
+        .select({ id: statuses.id })
+        .from(statuses)
+        .where(eq(statuses.code, options.status))));
+    }
+    if (options.tagIds) {
+      conditions.push(inArray(notes.id, db
+        .select({ id: noteTags.noteId })
+        .from(noteTags)
+        .where(inArray(noteTags.tagId, options.tagIds))));
+    }
+    if (options.month) {
+      const { from, to } = monthRange(options.month);
+      conditions.push(gte(notes.createdDate, from), lte(notes.createdDate, to));
+    }
+    if (options.createdFrom) conditions.push(gte(notes.createdDate, options.createdFrom));
+    if (options.createdTo) conditions.push(lte(notes.createdDate, options.createdTo));
+    if (options.dueFrom) conditions.push(gte(notes.dueDate, options.dueFrom));
+    if (options.dueTo) conditions.push(lte(notes.dueDate, options.dueTo));
+    if (options.completedFrom) conditions.push(gte(completedOn, options.completedFrom));
+    if (options.completedTo) conditions.push(lte(completedOn, options.completedTo));
+    if (options.scheduledFrom) conditions.push(gte(scheduledOn, options.scheduledFrom));
+    if (options.scheduledTo) conditions.push(lte(scheduledOn, options.scheduledTo));
+    // Notes without a value sort last in both directions; priority is never empty
+    // and orders notes of equal priority by the earliest due date
+    const after = options.after;
+    if (after && options.sort === "priority") {
+      const priority = after.value as NotePriority;
+      conditions.push(or(
+        pastCursor(notes.priority, priority),
+        and(eq(notes.priority, priority), pastNullsLast(notes.dueDate, after.dueDate ?? null, gt, pastCursor(notes.id, after.id))),
+      ));
+    } else if (after) {
+      const value = options.sort === "completedAt" && after.value !== null ? new Date(after.value) : after.value;
+      conditions.push(pastNullsLast(column, value, pastCursor, pastCursor(notes.id, after.id)));
+    }
+
+    const ordering = options.sort === "priority"
+      ? [sql`${notes.priority} ${sql.raw(options.order)}`, sql`${notes.dueDate} asc nulls last`]
+      : [sql`${column} ${sql.raw(options.order)} nulls last`];
+    const rows = await db
+      .select()
+      .from(notes)
+      .where(and(...conditions))
+      .orderBy(...ordering, direction(notes.id))
+      .limit(options.limit + 1);
+    return toPage(await withDetails(db, rows), options);
+  }
+
+  async searchNotes(userId: number, query: NoteSearchQuery): Promise<NoteSearchResult[]> {
+    if (searchTerms(query.q).length === 0) {
+      return [];
+    }
+
+    const db = await getDb();
+    const tsQuery = sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${toPrefixTsQuery(query.q)})`;
+    const rank = sql<number>`ts_rank("notes"."search_vector", ${tsQuery})`;
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+    const excerptOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=1, MinWords=8, MaxWords=20`;
+
+    const rows = await db
+      .select({
+        note: notes,
+        rank,
+        // Marks typed into the note itself would split the headline in the wrong places
+        headline: sql<string>`ts_headline(${SEARCH_CONFIG}::regconfig, translate(${notes.title}, ${HIGHLIGHT_MARKS}, ''), ${tsQuery}, ${headlineOptions})`,
+        bodyHeadline: sql<string>`ts_headline(${SEARCH_CONFIG}::regconfig, translate(${notes.body}, ${HIGHLIGHT_MARKS}, ''), ${tsQuery}, ${excerptOptions})`,
+      })
+      .from(notes)
+      .where(and(accessibleBy(userId, "read"), isNull(notes.deletedAt), sql`"notes"."search_vector" @@ ${tsQuery}`))
+      .orderBy(desc(rank), desc(notes.id))
+      .limit(query.limit);
+
+    const rowNotes = await withDetails(db, rows.map((row) => row.note));
+    return rows.map(({ rank, headline, bodyHeadline }, index) => {
+      // Without a match in the body ts_headline still returns its first words
+      const bodySnippet = toHighlightSegments(bodyHeadline);
+      return {
+        note: rowNotes[index],
+        rank: Number(rank),
+        snippet: toHighlightSegments(headline),
+        bodySnippet: bodySnippet.some((segment) => segment.match) ? bodySnippet : [],
+      };
+    });
+  }
+
+  async createNote({ tagIds, ...note }: InsertNote & { userId: number }): Promise<Note> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const [newNote] = await tx
+        .insert(notes)
+        .values({
+          ...note,
+          completedAt: sql`case when ${isDoneStatus(note.statusId)} then ${new Date().toISOString()}::timestamp end`,
+          position: endOfColumn(note.statusId),
+        })
+        .returning();
+      await replaceNoteTags(tx, newNote.id, tagIds);
+      await tx.insert(noteRevisions).values(toRevision(newNote, "create", note.userId));
+      const [createdNote] = await withDetails(tx, [await spawnIfCompleted(tx, newNote, note.userId)]);
+      return createdNote;
+    });
+  }
+
+  async updateNote(id: number, userId: number, { tagIds, ...noteUpdate }: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined> {
+    const db = await getDb();
+    // A new status also sends the note to the end of that column on the board
+    const completion = noteUpdate.statusId === undefined ? {} : {
+      completedAt: completionFor(noteUpdate.statusId),
+      position: sql`case when ${notes.statusId} = ${noteUpdate.statusId}
+        then ${notes.position} else ${endOfColumn(noteUpdate.statusId)} end`,
+    };
+    const updatedNote = await db.transaction(async (tx) => {
+      const [updatedNote] = await tx
+        .update(notes)
+        .set({ ...noteUpdate, ...completion, version: sql`${notes.version} + 1` })
+        .where(and(
+          eq(notes.id, id),
+          accessibleBy(userId, "write"),
+          isNull(notes.deletedAt),
+          expectedVersion === undefined ? undefined : eq(notes.version, expectedVersion),
+        ))
+        .returning();
+      if (!updatedNote) {
+        return undefined;
+      }
+      if (tagIds) {
+        await replaceNoteTags(tx, id, tagIds);
+      }
+      await tx.insert(noteRevisions).values(toRevision(updatedNote, "update", userId));
+      const [note] = await withDetails(tx, [await spawnIfCompleted(tx, updatedNote, userId)]);
+      return note;
+    });
+
+    if (!updatedNote && expectedVersion !== undefined) {
+      await this.throwIfVersionConflict(id, userId);
+    }
+    return updatedNote;
+  }
+
+  // Moves the note to the trash; purgeNote/purgeTrashedNotes remove it for good
+  async deleteNote(id: number, userId: number, expectedVersion?: number): Promise<boolean> {
+    const db = await getDb();
+    const deletedNote = await db.transaction(async (tx) => {
+      const [deletedNote] = await tx
+        .update(notes)
+        .set({ deletedAt: new Date(), version: sql`${notes.version} + 1` })
+        .where(and(
+          eq(notes.id, id),
+          accessibleBy(userId, "write"),
+          isNull(notes.deletedAt),
+          expectedVersion === undefined ? undefined : eq(notes.version, expectedVersion),
+        ))
+        .returning();
+      if (deletedNote) {
+        await tx.insert(noteRevisions).values(toRevision(deletedNote, "delete", userId));
+      }
+      return deletedNote;
+    });
+
+    if (!deletedNote && expectedVersion !== undefined) {
+      await this.throwIfVersionConflict(id, userId);
+    }
+    return !!deletedNote;
+  }
+
+  async moveNote(id: number, userId: number, { statusId, beforeId }: NoteMove, expectedVersion?: number): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const [writable] = await tx
+        .select({ id: notes.id })
+        .from(notes)
+        .where(and(eq(notes.id, id), accessibleBy(userId, "write"), isNull(notes.deletedAt)));
+      if (!writable) {
+        return undefined;
+      }
+      // Locks the note and the part of the target column the user can see in id order, so concurrent
+      // moves wait instead of deadlocking. Notes hidden from the user keep their positions
+      const rows = await tx
+        .select()
+        .from(notes)
+        .where(and(
+          isNull(notes.deletedAt),
+          or(eq(notes.id, id), and(eq(notes.statusId, statusId), accessibleBy(userId, "read"))),
+        ))
+        .orderBy(asc(notes.id))
+        .for("update");
+      const note = rows.find((row) => row.id === id);
+      if (!note) {
+        return undefined;
+      }
+      if (expectedVersion !== undefined && note.statusId !== statusId && note.version !== expectedVersion) {
+        const [current] = await withDetails(tx, [note]);
+        throw new NoteVersionConflictError(current);
+      }
+
+      const columnIds = rows
+        .filter((row) => row.id !== id && row.statusId === statusId)
+        .sort((a, b) => a.position - b.position || a.id - b.id)
+        .map((row) => row.id);
+      const index = beforeId === null ? columnIds.length : columnIds.indexOf(beforeId);
+      if (index === -1) {
+        throw new NoteMoveError();
+      }
+      columnIds.splice(index, 0, id);
+      await tx
+        .update(notes)
+        .set({ position: sql`case ${notes.id} ${sql.join(columnIds.map((noteId, position) => sql`when ${noteId} then ${position}::integer`), sql` `)} end` })
+        .where(inArray(notes.id, columnIds));
+
+      if (note.statusId === statusId) {
+        const [movedNote] = await tx.select().from(notes).where(eq(notes.id, id));
+        const [result] = await withDetails(tx, [movedNote]);
+        return result;
+      }
+      const [movedNote] = await tx
+        .update(notes)
+        .set({ statusId, completedAt: completionFor(statusId), version: sql`${notes.version} + 1` })
+        .where(eq(notes.id, id))
+        .returning();
+      await tx.insert(noteRevisions).values(toRevision(movedNote, "update", userId));
+      const [result] = await withDetails(tx, [await spawnIfCompleted(tx, movedNote, userId)]);
+      return result;
+    });
+  }
+
+  // A conditional write matched nothing: if the note still exists its version was stale
+  private async throwIfVersionConflict(id: number, userId: number) {
+    const db = await getDb();
+    const [current] = await db
+      .select()
+      .from(notes)
+      .where(and(eq(notes.id, id), accessibleBy(userId, "write"), isNull(notes.deletedAt)));
+    if (current) {
+      const [note] = await withDetails(db, [current]);
+      throw new NoteVersionConflictError(note);
+    }
+  }
+
+  async addNoteItem(noteId: number, userId: number, item: InsertNoteItem): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const note = await lockActiveNote(tx, noteId, userId);
+      if (!note) {
+        return undefined;
+      }
+      const [{ position }] = await tx
+        .select({ position: sql<number>`coalesce(max(${noteItems.position}) + 1, 0)` })
+        .from(noteItems)
+        .where(eq(noteItems.noteId, noteId));
+      await tx.insert(noteItems).values({ ...item, noteId, position });
+      const [updatedNote] = await withDetails(tx, [note]);
+      return updatedNote;
+    });
+  }
+
+  async updateNoteItem(noteId: number, itemId: number, userId: number, itemUpdate: Partial<InsertNoteItem>): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const note = await lockActiveNote(tx, noteId, userId);
+      if (!note) {
+        return undefined;
+      }
+      const [updatedItem] = await tx
+        .update(noteItems)
+        .set(itemUpdate)
+        .where(and(eq(noteItems.id, itemId), eq(noteItems.noteId, noteId)))
+        .returning();
+      if (!updatedItem) {
+        return undefined;
+      }
+      const [updatedNote] = await withDetails(tx, [updatedItem.done ? await completeWhenAllChecked(tx, note, userId) : note]);
+      return updatedNote;
+    });
+  }
+
+  async reorderNoteItems(noteId: number, userId: number, itemIds: number[]): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const note = await lockActiveNote(tx, noteId, userId);
+      if (!note) {
+        return undefined;
+      }
+      const items = await tx.select({ id: noteItems.id }).from(noteItems).where(eq(noteItems.noteId, noteId));
+      if (!isSameIdSet(items.map((item) => item.id), itemIds)) {
+        throw new NoteItemOrderError();
+      }
+      if (itemIds.length > 0) {
+        await tx
+          .update(noteItems)
+          .set({ position: sql`case ${noteItems.id} ${sql.join(itemIds.map((id, position) => sql`when ${id} then ${position}::integer`), sql` `)} end` })
+          .where(eq(noteItems.noteId, noteId));
+      }
+      const [updatedNote] = await withDetails(tx, [note]);
+      return updatedNote;
+    });
+  }
+
+  // Removing the last open item counts as finishing the checklist
+  async deleteNoteItem(noteId: number, itemId: number, userId: number): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const note = await lockActiveNote(tx, noteId, userId);
+      if (!note) {
+        return undefined;
+      }
+      const [deletedItem] = await tx
+        .delete(noteItems)
+        .where(and(eq(noteItems.id, itemId), eq(noteItems.noteId, noteId)))
+        .returning();
+      if (!deletedItem) {
+        return undefined;
+      }
+      const [updatedNote] = await withDetails(tx, [await completeWhenAllChecked(tx, note, userId)]);
+      return updatedNote;
+    });
+  }
+
+  async getNoteComments(noteId: number, userId: number): Promise<NoteComment[] | undefined> {
+    const db = await getDb();
+    const note = await getActiveNote(db, noteId, userId, "read");
+    if (!note) {
+      return undefined;
+    }
+    const rows = await db
+      .select({ comment: noteComments, author: { id: users.id, name: users.name } })
+      .from(noteComments)
+      .innerJoin(users, eq(users.id, noteComments.userId))
+      .where(eq(noteComments.noteId, noteId))
+      .orderBy(asc(noteComments.id));
+    return rows.map(({ comment, author }) => ({ ...comment, author }));
+  }
+
+  async addNoteComment(noteId: number, userId: number, comment: InsertNoteComment): Promise<NoteComment | undefined> {
+    const db = await getDb();
+    const note = await getActiveNote(db, noteId, userId, "write");
+    if (!note) {
+      return undefined;
+    }
+    const [newComment] = await db.insert(noteComments).values({ ...comment, noteId, userId }).returning();
+    return withAuthor(db, newComment);
+  }
+
+  async updateNoteComment(noteId: number, commentId: number, userId: number, comment: InsertNoteComment): Promise<NoteComment | undefined> {
+    const db = await getDb();
+    const note = await getActiveNote(db, noteId, userId, "write");
+    if (!note) {
+      return undefined;
+    }
+    const [updatedComment] = await db
+      .update(noteComments)
+      .set({ ...comment, editedAt: new Date() })
+      .where(and(eq(noteComments.id, commentId), eq(noteComments.noteId, noteId), eq(noteComments.userId, userId)))
+      .returning();
+    return updatedComment && withAuthor(db, updatedComment);
+  }
+
+  async deleteNoteComment(noteId: number, commentId: number, userId: number): Promise<boolean> {
+    const db = await getDb();
+    const note = await getActiveNote(db, noteId, userId, "write");
+    if (!note) {
+      return false;
+    }
+    const result = await db
+      .delete(noteComments)
+      .where(and(eq(noteComments.id, commentId), eq(noteComments.noteId, noteId), eq(noteComments.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getAttachment(noteId: number, attachmentId: number, userId: number): Promise<Attachment | undefined> {
+    const db = await getDb();
+    const [attachment] = await db
+      .select({ attachment: attachments })
+      .from(attachments)
+      .innerJoin(notes, eq(notes.id, attachments.noteId))
+      .where(and(
+        eq(attachments.id, attachmentId),
+        eq(attachments.noteId, noteId),
+        accessibleBy(userId, "read"),
+        isNull(notes.deletedAt),
+      ));
+    return attachment?.attachment;
+  }
+
+  async addAttachment(noteId: number, userId: number, attachment: InsertAttachment, quotaBytes: number): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const note = await lockActiveNote(tx, noteId, userId);
+      if (!note) {
+        return undefined;
+      }
+      // The user row serializes concurrent uploads, so two of them cannot both fit the last free space
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+      const [{ used }] = await tx
+        .select({ used: sql<number>`coalesce(sum(${attachments.size}), 0)::integer` })
+        .from(attachments)
+        .where(eq(attachments.userId, userId));
+      if (used + attachment.size > quotaBytes) {
+        throw new AttachmentQuotaError();
+      }
+      await tx.insert(attachments).values({ ...attachment, noteId, userId });
+      const [updatedNote] = await withDetails(tx, [note]);
+      return updatedNote;
+    });
+  }
+
+  async removeAttachment(noteId: number, attachmentId: number, userId: number): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const note = await lockActiveNote(tx, noteId, userId);
+      if (!note) {
+        return undefined;
+      }
+      const [removedAttachment] = await tx
+        .update(attachments)
+        .set({ noteId: null })
+        .where(and(eq(attachments.id, attachmentId), eq(attachments.noteId, noteId)))
+        .returning();
+      if (!removedAttachment) {
+        return undefined;
+      }
+      const [updatedNote] = await withDetails(tx, [note]);
+      return updatedNote;
+    });
+  }
+
+  async getOrphanedAttachments(): Promise<Attachment[]> {
+    const db = await getDb();
+    return db.select().from(attachments).where(isNull(attachments.noteId));
+  }
+
+  async deleteAttachments(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    const db = await getDb();
+    // Only orphans, in case a caller passes the id of an attachment still on a note
+    await db.delete(attachments).where(and(inArray(attachments.id, ids), isNull(attachments.noteId)));
+  }
+
+  async getTrashedNotes(userId: number): Promise<Note[]> {
+    const db = await getDb();
+    const rows = await db
+      .select()
+      .from(notes)
+      .where(and(accessibleBy(userId, "write"), isNotNull(notes.deletedAt)))
+      .orderBy(desc(notes.deletedAt), desc(notes.id));
+    return withDetails(db, rows);
+  }
+
+  async restoreNote(id: number, userId: number): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const [restoredNote] = await tx
+        .update(notes)
+        .set({ deletedAt: null, version: sql`${notes.version} + 1` })
+        .where(and(eq(notes.id, id), accessibleBy(userId, "write"), isNotNull(notes.deletedAt)))
+        .returning();
+      if (!restoredNote) {
+        return undefined;
+      }
+      await tx.insert(noteRevisions).values(toRevision(restoredNote, "restore", userId));
+      const [note] = await withDetails(tx, [restoredNote]);
+      return note;
+    });
+  }
+
+  // Only notes already in the trash can be purged
+  async purgeNote(id: number, userId: number): Promise<boolean> {
+    const db = await getDb();
     const result = await db
       .delete(notes)
-      .where(and(eq(notes.id, id), eq(notes.userId, userId)));
+      .where(and(eq(notes.id, id), accessibleBy(userId, "write"), isNotNull(notes.deletedAt)));
     return (result.rowCount ?? 0) > 0;
   }
+
+  async purgeTrashedNotes(deletedBefore: Date): Promise<number> {
+    const db = await getDb();
+    const result = await db
+      .delete(notes)
+      .where(lt(notes.deletedAt, deletedBefore));
+    return result.rowCount ?? 0;
+  }
+
+  async getNoteRevisions(noteId: number, userId: number): Promise<NoteRevision[]> {
+    const db = await getDb();
+    const rows = await db
+      .select({ revision: noteRevisions })
+      .from(noteRevisions)
+      .innerJoin(notes, eq(notes.id, noteRevisions.noteId))
+      .where(and(eq(noteRevisions.noteId, noteId), accessibleBy(userId, "read")))
+      .orderBy(asc(noteRevisions.id));
+    return rows.map((row) => row.revision);
+  }
+
+  async restoreNoteRevision(noteId: number, revisionId: number, userId: number): Promise<Note | undefined> {
+    const db = await getDb();
+    return db.transaction(async (tx) => {
+      const current = await lockActiveNote(tx, noteId, userId);
+      const [revision] = current ? await tx
+        .select()
+        .from(noteRevisions)
+        .where(and(eq(noteRevisions.id, revisionId), eq(noteRevisions.noteId, noteId))) : [];
+      if (!current || !revision) {
+        return undefined;
+      }
+
+      // The snapshot's project or status may have been deleted since; snapshots from before
+      // projects existed have none to restore
+      const { statusId, projectId, ...snapshot } = fromSnapshot(revision.snapshot);
+      const [snapshotProject] = projectId ? await tx
+        .select({ userId: projects.userId })
+        .from(projects)
+        .where(and(eq(projects.id, projectId), sql`${projects.id} in ${projectsOf(userId, "editor")}`)) : [];
+      const [snapshotStatus] = await tx.select({ userId: statuses.userId }).from(statuses).where(eq(statuses.id, statusId));
+      const [currentStatus] = await tx.select({ userId: statuses.userId }).from(statuses).where(eq(statuses.id, current.statusId));
+      const restores = restorable({
+        projectOwnerId: projectId === null ? current.userId : snapshotProject?.userId,
+        statusOwnerId: snapshotStatus?.userId,
+      }, currentStatus.userId);
+
+      // An assignee outside the restored project is dropped
+      const keepsAssignee = !restores.project || current.assigneeId === null
+        || await canBeAssigned(tx, current.assigneeId, projectId, current.userId);
+      const [restoredNote] = await tx
+        .update(notes)
+        .set({
+          ...snapshot,
+          ...(restores.status && { statusId }),
+          ...(restores.project && { projectId }),
+          ...(!keepsAssignee && { assigneeId: null }),
+          version: sql`${notes.version} + 1`,
+        })
+        .where(eq(notes.id, noteId))
+        .returning();
+      await tx.insert(noteRevisions).values(toRevision(restoredNote, "restore", userId));
+      const [note] = await withDetails(tx, [await spawnIfCompleted(tx, restoredNote, userId)]);
+      return note;
+    });
+  }
+
+  async getMonthSummary(userId: number, { month, projectId }: MonthSummaryQuery, today: string): Promise<MonthSummary> {
+    const db = await getDb();
+    const { from, to } = monthRange(month);
+    const counts = await db
+      .select({
+        statusId: notes.statusId,
+        count: sql<number>`count(*)::int`,
+        overdue: sql<number>`(count(*) filter (where ${notes.dueDate} < ${today}))::int`,
+        carriedOver: sql<number>`count(${notes.carriedFromMonth})::int`,
+      })
+      .from(notes)
+      .where(and(
+        accessibleBy(userId, "read"),
+        isNull(notes.deletedAt),
+        gte(notes.createdDate, from),
+        lte(notes.createdDate, to),
+        inProject(projectId, userId),
+      ))
+      .groupBy(notes.statusId);
+    // Shared projects bring the statuses of their creators
+    const countedStatuses = counts.length === 0 ? [] : await db
+      .select()
+      .from(statuses)
+      .where(inArray(statuses.id, counts.map((row) => row.statusId)))
+      .orderBy(asc(statuses.order), asc(statuses.id));
+    return toMonthSummary(month, counts, countedStatuses);
+  }
+
+  async closeMonth(userId: number, { month, mode, projectId }: MonthClose): Promise<MonthCloseResult> {
+    const db = await getDb();
+    const { from, to } = monthRange(month);
+    const nextMonth = shiftMonth(month, 1);
+    return db.transaction(async (tx) => {
+      const openNotes = await tx
+        .select()
+        .from(notes)
+        .where(and(
+          accessibleBy(userId, "write"),
+          isNull(notes.deletedAt),
+          gte(notes.createdDate, from),
+          lte(notes.createdDate, to),
+          inProject(projectId, userId),
+          inArray(notes.statusId, tx
+            .select({ id: statuses.id })
+            .from(statuses)
+            .where(eq(statuses.code, "todo"))),
+        ))
+        .orderBy(asc(notes.createdDate), asc(notes.id))
+        .for("update");
+      if (openNotes.length === 0) {
+        return { month: nextMonth, mode, count: 0 };
+      }
+
+      if (mode === "move") {
+        const movedNotes = await tx
+          .update(notes)
+          .set({ createdDate: `${nextMonth}-01`, carriedFromMonth: month, version: sql`${notes.version} + 1` })
+          .where(inArray(notes.id, openNotes.map((note) => note.id)))
+          .returning();
+        await tx.insert(noteRevisions).values(movedNotes.map((note) => toRevision(note, "update", userId)));
+        return { month: nextMonth, mode, count: movedNotes.length };
+      }
+
+      const copies = await tx
+        .select({ sourceId: notes.carriedFromNoteId })
+        .from(notes)
+        .where(inArray(notes.carriedFromNoteId, openNotes.map((note) => note.id)));
+      const copiedIds = new Set(copies.map((copy) => copy.sourceId));
+      const notesToCopy = openNotes.filter((note) => !copiedIds.has(note.id));
+      for (const note of notesToCopy) {
+        await insertNoteCopy(tx, note, {
+          createdDate: `${nextMonth}-01`,
+          dueDate: note.dueDate,
+          statusId: note.statusId,
+          carriedFromMonth: month,
+          carriedFromNoteId: note.id,
+        }, { resetItems: false, actorId: userId });
+      }
+      return { month: nextMonth, mode, count: notesToCopy.length };
+    });
+  }
+
+  async spawnDueOccurrences(today: string): Promise<number> {
+    const db = await getDb();
+    let spawned = 0;
+    // A new occurrence may itself be due already (e.g. after downtime), so repeat until a pass creates nothing
+    for (;;) {
+      const pending = await db
+        .select()
+        .from(notes)
+        .where(and(isNotNull(notes.recurrence), isNull(notes.nextOccurrenceId), isNull(notes.deletedAt)));
+      const due = pending.filter((note) => {
+        const dates = nextOccurrence(note);
+        return dates !== null && dates.createdDate <= today;
+      });
+
+      let spawnedThisPass = 0;
+      for (const { id } of due) {
+        const moved = await db.transaction(async (tx) => {
+          // Re-check under the lock: completing the note may have moved the series on meanwhile
+          const [note] = await tx.select().from(notes).where(eq(notes.id, id)).for("update");
+          const dates = note && nextOccurrence(note);
+          if (!dates || dates.createdDate > today) {
+            return false;
+          }
+          // Nobody completed anything: the job records the new occurrence as made by whoever created the series
+          return (await spawnNextOccurrence(tx, note, note.userId)).nextOccurrenceId !== note.nextOccurrenceId;
+        });
+        spawnedThisPass += moved ? 1 : 0;
+      }
+      if (spawnedThisPass === 0) {
+        return spawned;
+      }
+      spawned += spawnedThisPass;
+    }
+  }
+}
+
+export class MemStorage implements IStorage {
+  private users: Map<number, User>;
+  private statuses: Map<number, Status>;
+  private tags: Map<number, Tag>;
+  private projects: Map<number, Project>;
+  private projectMembers: ProjectMemberRow[];
+  private projectInvites: Map<number, ProjectInviteRow>;
+  private notes: Map<number, NoteRow>;
+  // Tag ids by note id
+  private noteTags: Map<number, number[]>;
+  private noteItems: Map<number, NoteItem>;
+  private noteRevisions: Map<number, NoteRevision>;
+  private noteComments: Map<number, NoteCommentRow>;
+  private attachments: Map<number, Attachment>;
+  private currentUserId: number;
+  private currentStatusId: number;
+  private currentTagId: number;
+  private currentProjectId: number;
+  private currentInviteId: number;
+  private currentNoteId: number;
+  private currentItemId: number;
+  private currentRevisionId: number;
+  private currentCommentId: number;
+  private currentAttachmentId: number;
+
+  constructor() {
+    this.users = new Map();
+    this.statuses = new Map();
+    this.tags = new Map();
+    this.projects = new Map();
+    this.projectMembers = [];
+    this.projectInvites = new Map();
+    this.notes = new Map();
+    this.noteTags = new Map();
+    this.noteItems = new Map();
+    this.noteRevisions = new Map();
+    this.noteComments = new Map();
+    this.attachments = new Map();
+    this.currentUserId = 1;
+    this.currentStatusId = 1;
+    this.currentTagId = 1;
+    this.currentProjectId = 1;
+    this.currentInviteId = 1;
+    this.currentNoteId = 1;
+    this.currentItemId = 1;
+    this.currentRevisionId = 1;
+    this.currentCommentId = 1;
+    this.currentAttachmentId = 1;
+  }
+
+  private isDoneStatus(statusId: number): boolean {
+    return this.statuses.get(statusId)?.code === "done";
+  }
+
+  private toNote(row: NoteRow): Note {
+    const noteTags = (this.noteTags.get(row.id) ?? [])
+      .map((tagId) => this.tags.get(tagId)!)
+      .map(({ id, name, color }) => ({ id, name, color }));
+    const noteAttachments = Array.from(this.attachments.values())
+      .filter((attachment) => attachment.noteId === row.id)
+      .sort((a, b) => a.id - b.id)
+      .map(toNoteAttachment);
+    const commentCount = Array.from(this.noteComments.values()).filter((comment) => comment.noteId === row.id).length;
+    const assignee = row.assigneeId === null ? null : this.users.get(row.assigneeId)!;
+    return toNote(
+      row,
+      this.statuses.get(row.statusId)!,
+      assignee && { id: assignee.id, name: assignee.name },
+      noteTags.sort(byName),
+      this.getItems(row.id),
+      noteAttachments,
+      commentCount,
+    );
+  }
+
+  private withAuthor(comment: NoteCommentRow): NoteComment {
+    const { id, name } = this.users.get(comment.userId)!;
+    return { ...comment, author: { id, name } };
+  }
+
+  private deleteComments(noteId: number) {
+    this.noteComments.forEach((comment, id) => {
+      if (comment.noteId === noteId) {
+        this.noteComments.delete(id);
+      }
+    });
+  }
+
+  // The database clears note_id when a note is purged
+  private detachAttachments(noteId: number) {
+    this.attachments.forEach((attachment, id) => {
+      if (attachment.noteId === noteId) {
+        this.attachments.set(id, { ...attachment, noteId: null });
+      }
+    });
+  }
+
+  private getItems(noteId: number): NoteItem[] {
+    return Array.from(this.noteItems.values())
+      .filter((item) => item.noteId === noteId)
+      .sort(byPosition);
+  }
+
+  private deleteItems(noteId: number) {
+    this.getItems(noteId).forEach((item) => this.noteItems.delete(item.id));
+  }
+
+  // Same rule as the database version of completeWhenAllChecked
+  private completeWhenAllChecked(note: NoteRow, actorId: number): NoteRow {
+    const items = this.getItems(note.id);
+    if (!note.completeWhenChecked || items.length === 0 || items.some((item) => !item.done)) {
+      return note;
+    }
+    const doneStatus = Array.from(this.statuses.values())
+      .filter((status) => status.userId === this.workflowOwnerOf(note.statusId) && status.code === "done")
+      .sort((a, b) => a.order - b.order || a.id - b.id)[0];
+    if (!doneStatus || this.isDoneStatus(note.statusId)) {
+      return note;
+    }
+    const completedNote: NoteRow = {
+      ...note,
+      statusId: doneStatus.id,
+      completedAt: new Date(),
+      position: this.endOfColumn(doneStatus.id),
+      version: note.version + 1,
+    };
+    this.notes.set(note.id, completedNote);
+    this.recordRevision(completedNote, "update", actorId);
+    return this.spawnIfCompleted(completedNote, actorId);
+  }
+
+  // Same as the database version of insertNoteCopy
+  private insertNoteCopy(note: NoteRow, values: NoteCopyValues, { resetItems, actorId }: { resetItems: boolean; actorId: number }): NoteRow {
+    const id = this.currentNoteId++;
+    const { userId, title, body, priority, completeWhenChecked, projectId, assigneeId } = note;
+    const copy: NoteRow = {
+      id, userId, title, body, priority, completeWhenChecked, projectId, assigneeId,
+      recurrence: null, occurrence: 1, nextOccurrenceId: null, carriedFromMonth: null, carriedFromNoteId: null,
+      completedAt: null, deletedAt: null, version: 1, position: this.endOfColumn(values.statusId),
+      ...values,
+      dueDate: values.dueDate ?? null,
+    };
+    this.notes.set(id, copy);
+    this.noteTags.set(id, [...(this.noteTags.get(note.id) ?? [])]);
+    this.getItems(note.id).forEach(({ text, done, position }) => {
+      const itemId = this.currentItemId++;
+      this.noteItems.set(itemId, { id: itemId, noteId: id, text, position, done: !resetItems && done });
+    });
+    this.recordRevision(copy, "create", actorId);
+    return copy;
+  }
+
+  // Same rules as the database version of spawnNextOccurrence
+  private spawnNextOccurrence(note: NoteRow, actorId: number): NoteRow {
+    const dates = note.nextOccurrenceId === null && !note.deletedAt ? nextOccurrence(note) : null;
+    const openStatus = Array.from(this.statuses.values())
+      .filter((status) => status.userId === this.workflowOwnerOf(note.statusId) && status.code === "todo")
+      .sort((a, b) => a.order - b.order || a.id - b.id)[0];
+    if (!dates || !openStatus) {
+      return note;
+    }
+
+    const nextNote = this.insertNoteCopy(note, {
+      ...dates,
+      statusId: openStatus.id,
+      recurrence: note.recurrence,
+      occurrence: note.occurrence + 1,
+    }, { resetItems: true, actorId });
+
+    const updatedNote: NoteRow = { ...note, nextOccurrenceId: nextNote.id };
+    this.notes.set(note.id, updatedNote);
+    return updatedNote;
+  }
+
+  private spawnIfCompleted(note: NoteRow, actorId: number): NoteRow {
+    return note.completedAt ? this.spawnNextOccurrence(note, actorId) : note;
+  }
+
+  private endOfColumn(statusId: number): number {
+    const positions = Array.from(this.notes.values())
+      .filter((note) => note.statusId === statusId)
+      .map((note) => note.position);
+    return positions.length > 0 ? Math.max(...positions) + 1 : 0;
+  }
+
+  private workflowOwnerOf(statusId: number): number | undefined {
+    return this.statuses.get(statusId)?.userId;
+  }
+
+  private memberRole(projectId: number, userId: number): ProjectRole | undefined {
+    return this.projectMembers.find((member) => member.projectId === projectId && member.userId === userId)?.role;
+  }
+
+  private withRole(project: Project, userId: number): ProjectWithRole | undefined {
+    const role = this.memberRole(project.id, userId);
+    return role && { ...project, role };
+  }
+
+  // Same rule as the database version of accessibleBy
+  private canAccess(note: NoteRow, userId: number, access: NoteAccess): boolean {
+    const role = noteRole({ ...note, role: note.projectId === null ? null : this.memberRole(note.projectId, userId) ?? null }, userId);
+    return hasProjectRole(role, access === "write" ? "editor" : "viewer");
+  }
+
+  // Same rule as the database version of inProject
+  private isInView(note: NoteRow, filter: ProjectFilter | undefined, userId: number): boolean {
+    if (filter === undefined) {
+      return note.projectId === null ? note.userId === userId : this.projects.get(note.projectId)?.userId === userId;
+    }
+    return filter === "none" ? note.projectId === null && note.userId === userId : note.projectId === filter;
+  }
+
+  // Same rule as the database version of inNoteView
+  private isInNoteView(note: NoteRow, { projectId, assignee }: Pick<NoteListQuery, "projectId" | "assignee">, userId: number): boolean {
+    if (!assignee) {
+      return this.isInView(note, projectId, userId);
+    }
+    return note.assigneeId === userId && (projectId === undefined || this.isInView(note, projectId, userId));
+  }
+
+  // Same rule as the database version of canBeAssigned
+  private canBeAssigned(userId: number, projectId: number | null, noteUserId: number): boolean {
+    return projectId === null ? userId === noteUserId : this.memberRole(projectId, userId) !== undefined;
+  }
+
+  // Trashed notes are only visible to the trash methods
+  private getActiveNote(id: number, userId: number, access: NoteAccess): NoteRow | undefined {
+    const note = this.notes.get(id);
+    return note && this.canAccess(note, userId, access) && !note.deletedAt ? note : undefined;
+  }
+
+  private getActiveNotes(userId: number): NoteRow[] {
+    return Array.from(this.notes.values()).filter((note) => this.canAccess(note, userId, "read") && !note.deletedAt);
+  }
+
+  private withInviteDetails(invite: ProjectInviteRow): ProjectInvite {
+    const { id, name, color } = this.projects.get(invite.projectId)!;
+    const invitedBy = this.users.get(invite.invitedById)!;
+    return { ...invite, project: { id, name, color }, invitedBy: { id: invitedBy.id, name: invitedBy.name } };
+  }
+
+  private recordRevision(note: NoteRow, operation: NoteRevision["operation"], actorId: number) {
+    const id = this.currentRevisionId++;
+    const revision: NoteRevision = { ...toRevision(note, operation, actorId), id, createdAt: new Date() };
+    this.noteRevisions.set(id, revision);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.email === email);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.currentUserId++;
+    const user: User = { ...insertUser, id };
+    this.users.set(id, user);
+    for (const status of defaultStatuses) {
+      await this.createStatus({ ...status, userId: id });
+    }
+    return user;
+  }
+
+  async getStatuses(userId: number): Promise<Status[]> {
+    return Array.from(this.statuses.values())
+      .filter((status) => status.userId === userId)
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+  }
+
+  async createStatus(status: InsertStatus & { userId: number }): Promise<Status> {
+    const id = this.currentStatusId++;
+    const newStatus: Status = { ...status, id, name: status.name ?? null, code: status.code ?? "todo" };
+    this.statuses.set(id, newStatus);
+    return newStatus;
+  }
+
+  async updateStatus(id: number, userId: number, statusUpdate: Partial<InsertStatus>): Promise<Status | undefined> {
+    const existing = this.statuses.get(id);
+    if (!existing || existing.userId !== userId) {
+      return undefined;
+    }
+    const updatedStatus: Status = { ...existing, ...statusUpdate };
+    this.statuses.set(id, updatedStatus);
+    return updatedStatus;
+  }
+
+  async deleteStatus(id: number, userId: number): Promise<boolean> {
+    const existing = this.statuses.get(id);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    if (Array.from(this.notes.values()).some((note) => note.statusId === id)) {
+      throw new StatusInUseError();
+    }
+    return this.statuses.delete(id);
+  }
+
+  async getTags(userId: number): Promise<Tag[]> {
+    return Array.from(this.tags.values())
+      .filter((tag) => tag.userId === userId)
+      .sort(byName);
+  }
+
+  async createTag(tag: InsertTag & { userId: number }): Promise<Tag> {
+    const id = this.currentTagId++;
+    const newTag: Tag = { ...tag, id };
+    this.tags.set(id, newTag);
+    return newTag;
+  }
+
+  async updateTag(id: number, userId: number, tagUpdate: Partial<InsertTag>): Promise<Tag | undefined> {
+    const existing = this.tags.get(id);
+    if (!existing || existing.userId !== userId) {
+      return undefined;
+    }
+    const updatedTag: Tag = { ...existing, ...tagUpdate };
+    this.tags.set(id, updatedTag);
+    return updatedTag;
+  }
+
+  async deleteTag(id: number, userId: number): Promise<boolean> {
+    const existing = this.tags.get(id);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    this.noteTags.forEach((tagIds, noteId) => this.noteTags.set(noteId, tagIds.filter((tagId) => tagId !== id)));
+    return this.tags.delete(id);
+  }
+
+  async getProjects(userId: number): Promise<ProjectWithRole[]> {
+    return Array.from(this.projects.values())
+      .flatMap((project) => this.withRole(project, userId) ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+  }
+
+  async getProject(id: number, userId: number): Promise<ProjectWithRole | undefined> {
+    const project = this.projects.get(id);
+    return project && this.withRole(project, userId);
+  }
+
+  async createProject(project: InsertProject & { userId: number }): Promise<ProjectWithRole> {
+    const id = this.currentProjectId++;
+    const newProject: Project = { ...project, id };
+    this.projects.set(id, newProject);
+    this.projectMembers.push({ projectId: id, userId: project.userId, role: "owner" });
+    return { ...newProject, role: "owner" };
+  }
+
+  async updateProject(id: number, userId: number, projectUpdate: Partial<InsertProject>): Promise<ProjectWithRole | undefined> {
+    const existing = this.projects.get(id);
+    if (!existing || this.memberRole(id, userId) !== "owner") {
+      return undefined;
+    }
+    const updatedProject: Project = { ...existing, ...projectUpdate };
+    this.projects.set(id, updatedProject);
+    return { ...updatedProject, role: "owner" };
+  }
+
+  // The database sets project_id to null on the project's notes and drops its members and invites
+  async deleteProject(id: number, userId: number): Promise<boolean> {
+    const existing = this.projects.get(id);
+    if (!existing || this.memberRole(id, userId) !== "owner") {
+      return false;
+    }
+    this.notes.forEach((note, noteId) => {
+      if (note.projectId === id) {
+        const assigneeId = note.assigneeId === existing.userId ? note.assigneeId : null;
+        this.notes.set(noteId, { ...note, userId: existing.userId, projectId: null, assigneeId });
+      }
+    });
+    this.projectMembers = this.projectMembers.filter((member) => member.projectId !== id);
+    this.projectInvites.forEach((invite, inviteId) => {
+      if (invite.projectId === id) {
+        this.projectInvites.delete(inviteId);
+      }
+    });
+    return this.projects.delete(id);
+  }
+
+  async getProjectCounts(userId: number): Promise<ProjectCounts> {
+    const counts = new Map<number | null, number>();
+    this.getActiveNotes(userId)
+      .filter((note) => this.statuses.get(note.statusId)?.code === "todo")
+      .forEach((note) => counts.set(note.projectId, (counts.get(note.projectId) ?? 0) + 1));
+    const ownProjectIds = Array.from(this.projects.values()).filter((project) => project.userId === userId).map((project) => project.id);
+    return toProjectCounts(Array.from(counts, ([projectId, count]) => ({ projectId, count })), new Set(ownProjectIds));
+  }
+
+  async getProjectMembers(projectId: number): Promise<ProjectMember[]> {
+    return this.projectMembers
+      .filter((member) => member.projectId === projectId)
+      .map((member) => {
+        const { id, name, email } = this.users.get(member.userId)!;
+        return { ...member, user: { id, name, email } };
+      })
+      .sort((a, b) => a.user.name.localeCompare(b.user.name, "pt-BR") || a.user.id - b.user.id);
+  }
+
+  async updateProjectMember(projectId: number, userId: number, role: ProjectRole): Promise<boolean> {
+    const member = this.projectMembers.find((row) => row.projectId === projectId && row.userId === userId);
+    if (!member) {
+      return false;
+    }
+    member.role = role;
+    return true;
+  }
+
+  async removeProjectMember(projectId: number, userId: number): Promise<boolean> {
+    const count = this.projectMembers.length;
+    this.projectMembers = this.projectMembers.filter((member) => member.projectId !== projectId || member.userId !== userId);
+    this.notes.forEach((note, noteId) => {
+      if (note.projectId === projectId && note.assigneeId === userId) {
+        this.notes.set(noteId, { ...note, assigneeId: null });
+      }
+    });
+    return this.projectMembers.length < count;
+  }
+
+  async getProjectInvites(projectId: number): Promise<ProjectInvite[]> {
+    return Array.from(this.projectInvites.values())
+      .filter((invite) => invite.projectId === projectId)
+      .map((invite) => this.withInviteDetails(invite));
+  }
+
+  async getInvitesForEmail(email: string): Promise<ProjectInvite[]> {
+    return Array.from(this.projectInvites.values())
+      .filter((invite) => invite.email === email)
+      .map((invite) => this.withInviteDetails(invite));
+  }
+
+  async createProjectInvite(invite: ProjectInviteInput & { projectId: number; invitedById: number }): Promise<ProjectInvite> {
+    const existing = Array.from(this.projectInvites.values())
+      .find((row) => row.projectId === invite.projectId && row.email === invite.email);
+    const id = existing?.id ?? this.currentInviteId++;
+    const newInvite: ProjectInviteRow = { ...invite, id, createdAt: new Date() };
+    this.projectInvites.set(id, newInvite);
+    return this.withInviteDetails(newInvite);
+  }
+
+  async deleteProjectInvite(projectId: number, inviteId: number): Promise<boolean> {
+    const existing = this.projectInvites.get(inviteId);
+    return !!existing && existing.projectId === projectId && this.projectInvites.delete(inviteId);
+  }
+
+  async acceptProjectInvite(inviteId: number, user: User): Promise<ProjectWithRole | undefined> {
+    const invite = this.projectInvites.get(inviteId);
+    if (!invite || invite.email !== user.email) {
+      return undefined;
+    }
+    this.projectInvites.delete(inviteId);
+    if (!this.memberRole(invite.projectId, user.id)) {
+      this.projectMembers.push({ projectId: invite.projectId, userId: user.id, role: invite.role });
+    }
+    return this.withRole(this.projects.get(invite.projectId)!, user.id);
+  }
+
+  async declineProjectInvite(inviteId: number, user: User): Promise<boolean> {
+    const invite = this.projectInvites.get(inviteId);
+    return !!invite && invite.email === user.email && this.projectInvites.delete(inviteId);
+  }
+
+  async getNoteRole(noteId: number, userId: number): Promise<ProjectRole | undefined> {
+    const note = this.notes.get(noteId);
+    return note && noteRole({ ...note, role: note.projectId === null ? null : this.memberRole(note.projectId, userId) ?? null }, userId);
+  }
+
+  async getNotesByUserId(userId: number): Promise<Note[]> {
+    return this.getActiveNotes(userId).map((row) => this.toNote(row));
+  }
+
+  async getNote(id: number, userId: number): Promise<Note | undefined> {
+    const note = this.getActiveNote(id, userId, "read");
+    return note && this.toNote(note);
+  }
+
+  async getBoardNotes(userId: number, query: NoteBoardQuery): Promise<Note[]> {
+    const month = query.month ? monthRange(query.month) : undefined;
+    return this.getActiveNotes(userId)
+      .filter((note) => this.isInNoteView(note, query, userId))
+      .filter((note) => !query.tagIds || (this.noteTags.get(note.id) ?? []).some((tagId) => query.tagIds!.includes(tagId)))
+      .filter((note) => !month || (note.createdDate >= month.from && note.createdDate <= month.to))
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .map((note) => this.toNote(note));
+  }
+
+  async listNotes(userId: number, options: NoteListOptions): Promise<NotePage> {
+    const sign = options.order === "asc" ? 1 : -1;
+    // Empty values last in both directions
+    const compareNullsLast = (a: string | null, b: string | null, direction: number) => {
+      if (a === b) return 0;
+      if (a === null || b === null) return a === null ? 1 : -1;
+      return direction * (a < b ? -1 : 1);
+    };
+    // Same order as the database: priority then earliest due date, or the sort field; id breaks ties
+    const compare = (a: Omit<NoteCursor, "sort">, b: Omit<NoteCursor, "sort">) => {
+      const byField = options.sort === "priority"
+        ? sign * (notePriorities.indexOf(a.value as NotePriority) - notePriorities.indexOf(b.value as NotePriority))
+          || compareNullsLast(a.dueDate ?? null, b.dueDate ?? null, 1)
+        : compareNullsLast(a.value, b.value, sign);
+      return byField || sign * (a.id - b.id);
+    };
+    const keyOf = (note: NoteRow) => ({ value: sortValueOf(note, options.sort), dueDate: note.dueDate, id: note.id });
+    const inRange = (value: string | null, from?: string, to?: string) =>
+      (!from || (value !== null && value >= from)) && (!to || (value !== null && value <= to));
+    const after = options.after;
+    const month = options.month ? monthRange(options.month) : undefined;
+
+    const rows = this.getActiveNotes(userId)
+      .filter((note) => this.isInNoteView(note, options, userId))
+      .filter((note) => !options.statusId || note.statusId === options.statusId)
+      .filter((note) => !options.status || this.statuses.get(note.statusId)?.code === options.status)
+      .filter((note) => !options.tagIds || (this.noteTags.get(note.id) ?? []).some((tagId) => options.tagIds!.includes(tagId)))
+      .filter((note) => !month || inRange(note.createdDate, month.from, month.to))
+      .filter((note) => inRange(note.createdDate, options.createdFrom, options.createdTo))
+      .filter((note) => inRange(note.dueDate, options.dueFrom, options.dueTo))
+      .filter((note) => inRange(note.completedAt?.toISOString().slice(0, 10) ?? null, options.completedFrom, options.completedTo))
+      .filter((note) => inRange(note.dueDate ?? note.createdDate, options.scheduledFrom, options.scheduledTo))
+      .filter((note) => !after || compare(keyOf(note), after) > 0)
+      .sort((a, b) => compare(keyOf(a), keyOf(b)));
+    return toPage(rows.slice(0, options.limit + 1).map((row) => this.toNote(row)), options);
+  }
+
+  // Accent-insensitive prefix matching; no stemming, which is fine for development
+  async searchNotes(userId: number, query: NoteSearchQuery): Promise<NoteSearchResult[]> {
+    const terms = searchTerms(normalizeForSearch(query.q));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const matchCount = (words: string[]) => words.filter((word) => terms.some((term) => word.startsWith(term))).length;
+
+    // Title matches weigh twice as much as body matches, like the setweight() in the search vector
+    return this.getActiveNotes(userId)
+      .map((note) => {
+        const titleWords = searchTerms(normalizeForSearch(note.title));
+        const bodyWords = searchTerms(normalizeForSearch(note.body));
+        const words = titleWords.concat(bodyWords);
+        const matchesAll = terms.every((term) => words.some((word) => word.startsWith(term)));
+        const score = 2 * matchCount(titleWords) + matchCount(bodyWords);
+        return { note, rank: matchesAll ? score / (2 * titleWords.length + bodyWords.length) : 0 };
+      })
+      .filter((result) => result.rank > 0)
+      .sort((a, b) => b.rank - a.rank || b.note.id - a.note.id)
+      .slice(0, query.limit)
+      .map(({ note, rank }) => ({
+        note: this.toNote(note),
+        rank,
+        snippet: highlightTerms(note.title, terms),
+        bodySnippet: highlightExcerpt(note.body, terms),
+      }));
+  }
+
+  async createNote({ tagIds, ...note }: InsertNote & { userId: number }): Promise<Note> {
+    const id = this.currentNoteId++;
+    const newNote: NoteRow = {
+      ...note,
+      id,
+      dueDate: note.dueDate ?? null,
+      recurrence: note.recurrence ?? null,
+      projectId: note.projectId ?? null,
+      assigneeId: note.assigneeId ?? null,
+      occurrence: 1,
+      nextOccurrenceId: null,
+      carriedFromMonth: null,
+      carriedFromNoteId: null,
+      completedAt: this.isDoneStatus(note.statusId) ? new Date() : null,
+      position: this.endOfColumn(note.statusId),
+      deletedAt: null,
+      version: 1,
+    };
+    this.notes.set(id, newNote);
+    this.noteTags.set(id, tagIds);
+    this.recordRevision(newNote, "create", note.userId);
+    return this.toNote(this.spawnIfCompleted(newNote, note.userId));
+  }
+
+  async updateNote(id: number, userId: number, { tagIds, ...noteUpdate }: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined> {
+    const existing = this.getActiveNote(id, userId, "write");
+    if (!existing) {
+      return undefined;
+    }
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      throw new NoteVersionConflictError(this.toNote(existing));
+    }
+    const completedAt = noteUpdate.statusId === undefined
+      ? existing.completedAt
+      : this.isDoneStatus(noteUpdate.statusId) ? existing.completedAt ?? new Date() : null;
+    const position = noteUpdate.statusId === undefined || noteUpdate.statusId === existing.statusId
+      ? existing.position
+      : this.endOfColumn(noteUpdate.statusId);
+    const updatedNote: NoteRow = { ...existing, ...noteUpdate, completedAt, position, version: existing.version + 1 };
+    this.notes.set(id, updatedNote);
+    if (tagIds) {
+      this.noteTags.set(id, tagIds);
+    }
+    this.recordRevision(updatedNote, "update", userId);
+    return this.toNote(this.spawnIfCompleted(updatedNote, userId));
+  }
+
+  async moveNote(id: number, userId: number, { statusId, beforeId }: NoteMove, expectedVersion?: number): Promise<Note | undefined> {
+    const existing = this.getActiveNote(id, userId, "write");
+    if (!existing) {
+      return undefined;
+    }
+    if (expectedVersion !== undefined && existing.statusId !== statusId && existing.version !== expectedVersion) {
+      throw new NoteVersionConflictError(this.toNote(existing));
+    }
+    const columnIds = Array.from(this.notes.values())
+      .filter((note) => note.id !== id && note.statusId === statusId && !note.deletedAt && this.canAccess(note, userId, "read"))
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .map((note) => note.id);
+    const index = beforeId === null ? columnIds.length : columnIds.indexOf(beforeId);
+    if (index === -1) {
+      throw new NoteMoveError();
+    }
+    columnIds.splice(index, 0, id);
+    columnIds.forEach((noteId, position) => this.notes.set(noteId, { ...this.notes.get(noteId)!, position }));
+
+    const movedNote = this.notes.get(id)!;
+    if (existing.statusId === statusId) {
+      return this.toNote(movedNote);
+    }
+    const completedAt = this.isDoneStatus(statusId) ? existing.completedAt ?? new Date() : null;
+    const updatedNote: NoteRow = { ...movedNote, statusId, completedAt, version: existing.version + 1 };
+    this.notes.set(id, updatedNote);
+    this.recordRevision(updatedNote, "update", userId);
+    return this.toNote(this.spawnIfCompleted(updatedNote, userId));
+  }
+
+  async deleteNote(id: number, userId: number, expectedVersion?: number): Promise<boolean> {
+    const existing = this.getActiveNote(id, userId, "write");
+    if (!existing) {
+      return false;
+    }
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      throw new NoteVersionConflictError(this.toNote(existing));
+    }
+    const deletedNote: NoteRow = { ...existing, deletedAt: new Date(), version: existing.version + 1 };
+    this.notes.set(id, deletedNote);
+    this.recordRevision(deletedNote, "delete", userId);
+    return true;
+  }
+
+  async addNoteItem(noteId: number, userId: number, item: InsertNoteItem): Promise<Note | undefined> {
+    const note = this.getActiveNote(noteId, userId, "write");
+    if (!note) {
+      return undefined;
+    }
+    const items = this.getItems(noteId);
+    const id = this.currentItemId++;
+    const position = items.length > 0 ? items[items.length - 1].position + 1 : 0;
+    this.noteItems.set(id, { ...item, id, noteId, done: item.done ?? false, position });
+    return this.toNote(note);
+  }
+
+  async updateNoteItem(noteId: number, itemId: number, userId: number, itemUpdate: Partial<InsertNoteItem>): Promise<Note | undefined> {
+    const note = this.getActiveNote(noteId, userId, "write");
+    const existing = this.noteItems.get(itemId);
+    if (!note || !existing || existing.noteId !== noteId) {
+      return undefined;
+    }
+    const updatedItem: NoteItem = { ...existing, ...itemUpdate };
+    this.noteItems.set(itemId, updatedItem);
+    return this.toNote(updatedItem.done ? this.completeWhenAllChecked(note, userId) : note);
+  }
+
+  async reorderNoteItems(noteId: number, userId: number, itemIds: number[]): Promise<Note | undefined> {
+    const note = this.getActiveNote(noteId, userId, "write");
+    if (!note) {
+      return undefined;
+    }
+    if (!isSameIdSet(this.getItems(noteId).map((item) => item.id), itemIds)) {
+      throw new NoteItemOrderError();
+    }
+    itemIds.forEach((id, position) => this.noteItems.set(id, { ...this.noteItems.get(id)!, position }));
+    return this.toNote(note);
+  }
+
+  async deleteNoteItem(noteId: number, itemId: number, userId: number): Promise<Note | undefined> {
+    const note = this.getActiveNote(noteId, userId, "write");
+    const existing = this.noteItems.get(itemId);
+    if (!note || !existing || existing.noteId !== noteId) {
+      return undefined;
+    }
+    this.noteItems.delete(itemId);
+    return this.toNote(this.completeWhenAllChecked(note, userId));
+  }
+
+  async getNoteComments(noteId: number, userId: number): Promise<NoteComment[] | undefined> {
+    if (!this.getActiveNote(noteId, userId, "read")) {
+      return undefined;
+    }
+    return Array.from(this.noteComments.values())
+      .filter((comment) => comment.noteId === noteId)
+      .sort((a, b) => a.id - b.id)
+      .map((comment) => this.withAuthor(comment));
+  }
+
+  async addNoteComment(noteId: number, userId: number, comment: InsertNoteComment): Promise<NoteComment | undefined> {
+    if (!this.getActiveNote(noteId, userId, "write")) {
+      return undefined;
+    }
+    const id = this.currentCommentId++;
+    const newComment: NoteCommentRow = { ...comment, id, noteId, userId, createdAt: new Date(), editedAt: null };
+    this.noteComments.set(id, newComment);
+    return this.withAuthor(newComment);
+  }
+
+  async updateNoteComment(noteId: number, commentId: number, userId: number, comment: InsertNoteComment): Promise<NoteComment | undefined> {
+    const existing = this.noteComments.get(commentId);
+    if (!this.getActiveNote(noteId, userId, "write") || !existing || existing.noteId !== noteId || existing.userId !== userId) {
+      return undefined;
+    }
+    const updatedComment: NoteCommentRow = { ...existing, ...comment, editedAt: new Date() };
+    this.noteComments.set(commentId, updatedComment);
+    return this.withAuthor(updatedComment);
+  }
+
+  async deleteNoteComment(noteId: number, commentId: number, userId: number): Promise<boolean> {
+    const existing = this.noteComments.get(commentId);
+    if (!this.getActiveNote(noteId, userId, "write") || !existing || existing.noteId !== noteId || existing.userId !== userId) {
+      return false;
+    }
+    return this.noteComments.delete(commentId);
+  }
+
+  async getAttachment(noteId: number, attachmentId: number, userId: number): Promise<Attachment | undefined> {
+    const attachment = this.attachments.get(attachmentId);
+    return attachment && attachment.noteId === noteId && this.getActiveNote(noteId, userId, "read") ? attachment : undefined;
+  }
+
+  async addAttachment(noteId: number, userId: number, attachment: InsertAttachment, quotaBytes: number): Promise<Note | undefined> {
+    const note = this.getActiveNote(noteId, userId, "write");
+    if (!note) {
+      return undefined;
+    }
+    const used = Array.from(this.attachments.values())
+      .filter((existing) => existing.userId === userId)
+      .reduce((total, existing) => total + existing.size, 0);
+    if (used + attachment.size > quotaBytes) {
+      throw new AttachmentQuotaError();
+    }
+    const id = this.currentAttachmentId++;
+    this.attachments.set(id, { ...attachment, id, noteId, userId, createdAt: new Date() });
+    return this.toNote(note);
+  }
+
+  async removeAttachment(noteId: number, attachmentId: number, userId: number): Promise<Note | undefined> {
+    const note = this.getActiveNote(noteId, userId, "write");
+    const existing = this.attachments.get(attachmentId);
+    if (!note || !existing || existing.noteId !== noteId) {
+      return undefined;
+    }
+    this.attachments.set(attachmentId, { ...existing, noteId: null });
+    return this.toNote(note);
+  }
+
+  async getOrphanedAttachments(): Promise<Attachment[]> {
+    return Array.from(this.attachments.values()).filter((attachment) => attachment.noteId === null);
+  }
+
+  async deleteAttachments(ids: number[]): Promise<void> {
+    ids.forEach((id) => {
+      if (this.attachments.get(id)?.noteId === null) {
+        this.attachments.delete(id);
+      }
+    });
+  }
+
+  async getTrashedNotes(userId: number): Promise<Note[]> {
+    return Array.from(this.notes.values())
+      .filter((note) => this.canAccess(note, userId, "write") && note.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime() || b.id - a.id)
+      .map((row) => this.toNote(row));
+  }
+
+  async restoreNote(id: number, userId: number): Promise<Note | undefined> {
+    const existing = this.notes.get(id);
+    if (!existing || !this.canAccess(existing, userId, "write") || !existing.deletedAt) {
+      return undefined;
+    }
+    const restoredNote: NoteRow = { ...existing, deletedAt: null, version: existing.version + 1 };
+    this.notes.set(id, restoredNote);
+    this.recordRevision(restoredNote, "restore", userId);
+    return this.toNote(restoredNote);
+  }
+
+  async purgeNote(id: number, userId: number): Promise<boolean> {
+    const existing = this.notes.get(id);
+    if (!existing || !this.canAccess(existing, userId, "write") || !existing.deletedAt) {
+      return false;
+    }
+    this.noteTags.delete(id);
+    this.deleteItems(id);
+    this.deleteComments(id);
+    this.detachAttachments(id);
+    return this.notes.delete(id);
+  }
+
+  async purgeTrashedNotes(deletedBefore: Date): Promise<number> {
+    const expired = Array.from(this.notes.values()).filter((note) => note.deletedAt && note.deletedAt < deletedBefore);
+    expired.forEach((note) => {
+      this.notes.delete(note.id);
+      this.noteTags.delete(note.id);
+      this.deleteItems(note.id);
+      this.deleteComments(note.id);
+      this.detachAttachments(note.id);
+    });
+    return expired.length;
+  }
+
+  async getNoteRevisions(noteId: number, userId: number): Promise<NoteRevision[]> {
+    const note = this.notes.get(noteId);
+    if (!note || !this.canAccess(note, userId, "read")) {
+      return [];
+    }
+    return Array.from(this.noteRevisions.values())
+      .filter((revision) => revision.noteId === noteId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async restoreNoteRevision(noteId: number, revisionId: number, userId: number): Promise<Note | undefined> {
+    const revision = this.noteRevisions.get(revisionId);
+    const existing = this.getActiveNote(noteId, userId, "write");
+    if (!revision || revision.noteId !== noteId || !existing) {
+      return undefined;
+    }
+    const { statusId, projectId, ...snapshot } = fromSnapshot(revision.snapshot);
+    const snapshotProject = projectId && hasProjectRole(this.memberRole(projectId, userId), "editor")
+      ? this.projects.get(projectId)
+      : undefined;
+    const restores = restorable({
+      projectOwnerId: projectId === null ? existing.userId : snapshotProject?.userId,
+      statusOwnerId: this.workflowOwnerOf(statusId),
+    }, this.workflowOwnerOf(existing.statusId)!);
+    const keepsAssignee = !restores.project || existing.assigneeId === null
+      || this.canBeAssigned(existing.assigneeId, projectId, existing.userId);
+    const restoredNote: NoteRow = {
+      ...existing,
+      ...snapshot,
+      ...(restores.status && { statusId }),
+      ...(restores.project && { projectId }),
+      ...(!keepsAssignee && { assigneeId: null }),
+      version: existing.version + 1,
+    };
+    this.notes.set(noteId, restoredNote);
+    this.recordRevision(restoredNote, "restore", userId);
+    return this.toNote(this.spawnIfCompleted(restoredNote, userId));
+  }
+
+  async getMonthSummary(userId: number, { month, projectId }: MonthSummaryQuery, today: string): Promise<MonthSummary> {
+    const { from, to } = monthRange(month);
+    const counts = new Map<number, MonthStatusCount>();
+    this.getActiveNotes(userId)
+      .filter((note) => note.createdDate >= from && note.createdDate <= to && this.isInView(note, projectId, userId))
+      .forEach((note) => {
+        const row = counts.get(note.statusId) ?? { statusId: note.statusId, count: 0, overdue: 0, carriedOver: 0 };
+        row.count++;
+        row.overdue += note.dueDate !== null && note.dueDate < today ? 1 : 0;
+        row.carriedOver += note.carriedFromMonth !== null ? 1 : 0;
+        counts.set(note.statusId, row);
+      });
+    const countedStatuses = Array.from(this.statuses.values())
+      .filter((status) => counts.has(status.id))
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+    return toMonthSummary(month, Array.from(counts.values()), countedStatuses);
+  }
+
+  async closeMonth(userId: number, { month, mode, projectId }: MonthClose): Promise<MonthCloseResult> {
+    const { from, to } = monthRange(month);
+    const nextMonth = shiftMonth(month, 1);
+    const openNotes = this.getActiveNotes(userId)
+      .filter((note) => this.canAccess(note, userId, "write"))
+      .filter((note) => note.createdDate >= from && note.createdDate <= to && this.statuses.get(note.statusId)?.code === "todo")
+      .filter((note) => this.isInView(note, projectId, userId))
+      .sort((a, b) => a.createdDate.localeCompare(b.createdDate) || a.id - b.id);
+    if (mode === "move") {
+      openNotes.forEach((note) => {
+        const movedNote: NoteRow = { ...note, createdDate: `${nextMonth}-01`, carriedFromMonth: month, version: note.version + 1 };
+        this.notes.set(note.id, movedNote);
+        this.recordRevision(movedNote, "update", userId);
+      });
+      return { month: nextMonth, mode, count: openNotes.length };
+    }
+
+    const copiedIds = new Set(Array.from(this.notes.values()).map((note) => note.carriedFromNoteId));
+    const notesToCopy = openNotes.filter((note) => !copiedIds.has(note.id));
+    notesToCopy.forEach((note) => this.insertNoteCopy(note, {
+      createdDate: `${nextMonth}-01`,
+      dueDate: note.dueDate,
+      statusId: note.statusId,
+      carriedFromMonth: month,
+      carriedFromNoteId: note.id,
+    }, { resetItems: false, actorId: userId }));
+    return { month: nextMonth, mode, count: notesToCopy.length };
+  }
+
+  async spawnDueOccurrences(today: string): Promise<number> {
+    let spawned = 0;
+    for (;;) {
+      const due = Array.from(this.notes.values()).filter((note) => {
+        const dates = note.nextOccurrenceId === null && !note.deletedAt ? nextOccurrence(note) : null;
+        return dates !== null && dates.createdDate <= today;
+      });
+      const spawnedThisPass = due.filter((note) => this.spawnNextOccurrence(note, note.userId) !== note).length;
+      if (spawnedThisPass === 0) {
+        return spawned;
+      }
+      spawned += spawnedThisPass;
+    }
+  }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE=memory runs the app without any database (local dev, tests)
+export const usesMemStorage = process.env.STORAGE === "memory";
+
+export const storage: IStorage = usesMemStorage ? new MemStorage() : new DatabaseStorage();
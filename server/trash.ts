@@ -0,0 +1,39 @@
+import { storage } from "./storage";
+import { removeOrphanedAttachments } from "./attachments";
+import { positiveIntFromEnv } from "./env";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// Days a note stays in the trash before it is permanently deleted
+export const TRASH_RETENTION_DAYS = positiveIntFromEnv("TRASH_RETENTION_DAYS", 30);
+
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const deletedBefore = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+  return storage.purgeTrashedNotes(deletedBefore);
+}
+
+// Runs once at startup and then every hour; failures are logged and retried next run
+export function scheduleTrashPurge() {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        log(`purged ${purged} note(s) older than ${TRASH_RETENTION_DAYS} days`, "trash");
+      }
+      // Also catches files left behind when an earlier cleanup failed
+      const removed = await removeOrphanedAttachments();
+      if (removed > 0) {
+        log(`removed ${removed} orphaned attachment(s)`, "trash");
+      }
+    } catch (error: any) {
+      log(`purge failed: ${error.message}`, "trash");
+    }
+  };
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
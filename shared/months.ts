@@ -0,0 +1,29 @@
+// Months are "AAAA-MM" strings and days "AAAA-MM-DD", compared as plain text like every date in the app
+
+export function monthOf(isoDate: string): string {
+  return isoDate.slice(0, 7);
+}
+
+export function shiftMonth(month: string, offset: number): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, monthNumber - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+// First and last day of the month
+export function monthRange(month: string): { from: string; to: string } {
+  const next = shiftMonth(month, 1);
+  const last = new Date(Date.UTC(Number(next.slice(0, 4)), Number(next.slice(5, 7)) - 1, 0));
+  return { from: `${month}-01`, to: last.toISOString().slice(0, 10) };
+}
+
+// e.g. "outubro de 2026"
+export function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString("pt-BR", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+// Note dates carry no time zone, so the server takes its UTC date as "today"
+export function todayIso(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
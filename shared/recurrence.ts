@@ -0,0 +1,169 @@
+import type { NoteRow, Recurrence, RecurrenceFrequency } from "./schema";
+
+// Dates are plain "AAAA-MM-DD" strings, so all math runs in UTC to stay clear of DST shifts
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const weekdayLabels = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+const weekdayNames = ["domingo", "segunda", "terça", "quarta", "quinta", "sexta", "sábado"];
+
+export const setPositionLabels: Record<number, string> = {
+  1: "primeira", 2: "segunda", 3: "terceira", 4: "quarta", [-1]: "última",
+};
+
+const frequencyUnits: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ["dia", "dias"],
+  weekly: ["semana", "semanas"],
+  monthly: ["mês", "meses"],
+  yearly: ["ano", "anos"],
+};
+
+function toDate(isoDate: string): Date {
+  return new Date(`${isoDate}T00:00:00Z`);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysSinceEpoch(isoDate: string): number {
+  return Math.round(toDate(isoDate).getTime() / DAY_MS);
+}
+
+export function addDays(isoDate: string, days: number): string {
+  return toIsoDate(new Date(toDate(isoDate).getTime() + days * DAY_MS));
+}
+
+export function weekdayOf(isoDate: string): number {
+  return toDate(isoDate).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Day of month of the nth (or last, with -1) given weekday
+function nthWeekday(year: number, month: number, weekday: number, position: number): number {
+  if (position === -1) {
+    const last = daysInMonth(year, month);
+    return last - ((new Date(Date.UTC(year, month, last)).getUTCDay() - weekday + 7) % 7);
+  }
+  const first = (weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7 + 1;
+  return first + (position - 1) * 7;
+}
+
+function nextWeekly(rule: Recurrence, from: string): string {
+  const weekdays = rule.byWeekday?.length ? rule.byWeekday : [weekdayOf(from)];
+  // Weeks start on Sunday; only every interval-th week counting from the week of `from` qualifies
+  const fromWeekStart = daysSinceEpoch(from) - weekdayOf(from);
+  for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+    const candidate = addDays(from, offset);
+    const week = (daysSinceEpoch(candidate) - weekdayOf(candidate) - fromWeekStart) / 7;
+    if (week % rule.interval === 0 && weekdays.includes(weekdayOf(candidate))) {
+      return candidate;
+    }
+  }
+  return addDays(from, 7 * rule.interval);
+}
+
+function nextMonthly(rule: Recurrence, from: string): string {
+  const start = toDate(from);
+  const weekday = rule.byWeekday?.[0];
+  // Same-month candidates still count when they fall after `from` (e.g. moving from the 5th to the 20th)
+  for (let step = 0; step <= 12; step++) {
+    const month = start.getUTCMonth() + step * rule.interval;
+    const year = start.getUTCFullYear() + Math.floor(month / 12);
+    const day = rule.bySetPos !== undefined && weekday !== undefined
+      ? nthWeekday(year, month % 12, weekday, rule.bySetPos)
+      : Math.min(rule.byMonthDay ?? start.getUTCDate(), daysInMonth(year, month % 12));
+    const candidate = toIsoDate(new Date(Date.UTC(year, month % 12, day)));
+    if (candidate > from) {
+      return candidate;
+    }
+  }
+  return from;
+}
+
+// Monthly rules without a day of their own keep the day of the first occurrence, so a series that
+// starts on the 31st goes back to the 31st after shorter months instead of following the clamped day
+export function anchorRecurrence(rule: Recurrence, anchor: string): Recurrence {
+  if (rule.freq !== "monthly" || rule.byMonthDay !== undefined || rule.bySetPos !== undefined) {
+    return rule;
+  }
+  return { ...rule, byMonthDay: toDate(anchor).getUTCDate() };
+}
+
+// Feb 29 falls back to Feb 28 in common years
+function nextYearly(rule: Recurrence, from: string): string {
+  const start = toDate(from);
+  const year = start.getUTCFullYear() + rule.interval;
+  const day = Math.min(start.getUTCDate(), daysInMonth(year, start.getUTCMonth()));
+  return toIsoDate(new Date(Date.UTC(year, start.getUTCMonth(), day)));
+}
+
+// First date of the schedule strictly after `from`; ignores count and until
+export function nextDate(rule: Recurrence, from: string): string {
+  switch (rule.freq) {
+    case "daily":
+      return addDays(from, rule.interval);
+    case "weekly":
+      return nextWeekly(rule, from);
+    case "monthly":
+      return nextMonthly(rule, from);
+    case "yearly":
+      return nextYearly(rule, from);
+  }
+}
+
+type OccurrenceDates = Pick<NoteRow, "createdDate" | "dueDate">;
+
+// Dates of the occurrence after this one, or null once count or until end the series.
+// The schedule follows the due date when there is one, and the note date keeps its distance to it
+export function nextOccurrence(note: Pick<NoteRow, "recurrence" | "occurrence"> & OccurrenceDates): OccurrenceDates | null {
+  const rule = note.recurrence;
+  if (!rule || (rule.count !== undefined && note.occurrence >= rule.count)) {
+    return null;
+  }
+  const anchor = note.dueDate ?? note.createdDate;
+  const next = nextDate(rule, anchor);
+  if (rule.until !== undefined && next > rule.until) {
+    return null;
+  }
+  return note.dueDate
+    ? { createdDate: addDays(note.createdDate, daysSinceEpoch(next) - daysSinceEpoch(anchor)), dueDate: next }
+    : { createdDate: next, dueDate: null };
+}
+
+// The anchor itself plus the following dates, for previews; stops early when the series ends
+export function upcomingDates(rule: Recurrence, anchor: string, limit: number): string[] {
+  const dates = [anchor];
+  while (dates.length < limit && (rule.count === undefined || dates.length < rule.count)) {
+    const next = nextDate(rule, dates[dates.length - 1]);
+    if (rule.until !== undefined && next > rule.until) {
+      break;
+    }
+    dates.push(next);
+  }
+  return dates;
+}
+
+// e.g. "A cada 2 semanas: seg, qua · 10 vezes"
+export function describeRecurrence(rule: Recurrence): string {
+  const [singular, plural] = frequencyUnits[rule.freq];
+  const parts = [rule.interval === 1 ? `A cada ${singular}` : `A cada ${rule.interval} ${plural}`];
+
+  if (rule.freq === "weekly" && rule.byWeekday?.length) {
+    parts[0] += `: ${[...rule.byWeekday].sort().map((day) => weekdayLabels[day].toLowerCase()).join(", ")}`;
+  } else if (rule.freq === "monthly" && rule.bySetPos !== undefined && rule.byWeekday?.length) {
+    parts[0] += `: ${setPositionLabels[rule.bySetPos]} ${weekdayNames[rule.byWeekday[0]]}`;
+  } else if (rule.freq === "monthly" && rule.byMonthDay !== undefined) {
+    parts[0] += `: dia ${rule.byMonthDay}`;
+  }
+
+  if (rule.count !== undefined) {
+    parts.push(rule.count === 1 ? "1 vez" : `${rule.count} vezes`);
+  } else if (rule.until !== undefined) {
+    parts.push(`até ${rule.until.split("-").reverse().join("/")}`);
+  }
+  return parts.join(" · ");
+}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, date } from "drizzle-orm/pg-core";
+import { pgTable, pgEnum, text, varchar, integer, boolean, date, index, uniqueIndex, primaryKey, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,23 +10,337 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// Language-neutral meaning of a status; labels live in statusCodeLabels
+export const statusCodes = ["todo", "done"] as const;
+export const statusCodeEnum = pgEnum("status_code", statusCodes);
+
+// Language-neutral priority codes, lowest first (the enum order is the sort order);
+// labels live in priorityLabels
+export const notePriorities = ["low", "medium", "high", "urgent"] as const;
+export const notePriorityEnum = pgEnum("note_priority", notePriorities);
+
+// Each user's workflow; registration seeds one unnamed status per code
+export const statuses = pgTable("statuses", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Null shows the localized label of the code (see statusLabel)
+  name: text("name"),
+  // Hex color used for the badge and filter button, e.g. "#f59e0b"
+  color: text("color").notNull(),
+  order: integer("order").notNull(),
+  // Notes in a "done" status get completedAt and count as finished
+  code: statusCodeEnum("code").notNull().default("todo"),
+}, (table) => [
+  uniqueIndex("statuses_user_name_idx").on(table.userId, table.name),
+  index("statuses_user_order_idx").on(table.userId, table.order),
+]);
+
+// What a member can do in a shared project: viewers read, editors also write notes,
+// owners also manage the project and its members (the enum order is the rank)
+export const projectRoles = ["viewer", "editor", "owner"] as const;
+export const projectRoleEnum = pgEnum("project_role", projectRoles);
+
+// Lists (Mercado, Trabalho, ...) that group notes; a note is in at most one
+export const projects = pgTable("projects", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  // Creator; always an owner, and the project's notes use their statuses
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Hex color used for the sidebar dot, e.g. "#10b981"
+  color: text("color").notNull(),
+}, (table) => [
+  uniqueIndex("projects_user_name_idx").on(table.userId, table.name),
+]);
+
+// Who can see a project's notes; the creator is added as owner when the project is created
+export const projectMembers = pgTable("project_members", {
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: projectRoleEnum("role").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.projectId, table.userId] }),
+  index("project_members_user_id_idx").on(table.userId),
+]);
+
+// Pending invitations of registered users, by email; accepting one makes them a member
+export const projectInvites = pgTable("project_invites", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: projectRoleEnum("role").notNull(),
+  invitedById: integer("invited_by_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("project_invites_project_email_idx").on(table.projectId, table.email),
+  index("project_invites_email_idx").on(table.email),
+]);
+
 export const notes = pgTable("notes", {
   id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  // Creator; only they see the note while it is outside every project
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
+  // Markdown; rendered sanitized on the client
+  body: text("body").notNull().default(""),
   createdDate: date("created_date").notNull(),
-  completedDate: date("completed_date").notNull(),
-  status: text("status").notNull().$type<"A Fazer" | "Concluída">(),
-});
+  // Optional deadline picked by the user
+  dueDate: date("due_date"),
+  // Set by the server when the note moves to a done status, cleared when reopened
+  completedAt: timestamp("completed_at"),
+  priority: notePriorityEnum("priority").notNull().default("medium"),
+  // Moves the note to a done status once every checklist item is checked
+  completeWhenChecked: boolean("complete_when_checked").notNull().default(false),
+  // Repeating notes spawn their next occurrence when completed or when its period begins
+  recurrence: jsonb("recurrence").$type<Recurrence>(),
+  // 1 for the note the user created, counting up along the series
+  occurrence: integer("occurrence").notNull().default(1),
+  // Set once the next occurrence exists; no foreign key, so purging that note doesn't respawn it
+  nextOccurrenceId: integer("next_occurrence_id"),
+  // Month (AAAA-MM) the note was carried over from when that month was closed
+  carriedFromMonth: varchar("carried_from_month", { length: 7 }),
+  // Original note when closing the month copied it; no foreign key, like nextOccurrenceId
+  carriedFromNoteId: integer("carried_from_note_id"),
+  // Order within the note's status column on the board (see moveNote); new notes go to the end
+  position: integer("position").notNull().default(0),
+  // Statuses in use cannot be deleted
+  statusId: integer("status_id").notNull().references(() => statuses.id, { onDelete: "restrict" }),
+  // Null for notes outside any list; deleting the list keeps its notes
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  // Who the task is for: a member of its project, or its creator outside every project
+  assigneeId: integer("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  // Set when the note is moved to the trash; purged after the retention period
+  deletedAt: timestamp("deleted_at"),
+  // Incremented on every write; exposed as the ETag for optimistic concurrency
+  version: integer("version").notNull().default(1),
+}, (table) => [
+  // Keyset pagination indexes: (user, sort column, id) for every sortable column
+  index("notes_user_created_date_idx").on(table.userId, table.createdDate, table.id),
+  index("notes_user_due_date_idx").on(table.userId, table.dueDate, table.id),
+  index("notes_user_completed_at_idx").on(table.userId, table.completedAt, table.id),
+  index("notes_user_title_idx").on(table.userId, table.title, table.id),
+  // Priority sorts by due date next (see listNotes)
+  index("notes_user_priority_idx").on(table.userId, table.priority, table.dueDate, table.id),
+  index("notes_user_status_idx").on(table.userId, table.statusId, table.position),
+  index("notes_project_id_idx").on(table.projectId),
+  index("notes_assignee_id_idx").on(table.assigneeId),
+  index("notes_deleted_at_idx").on(table.deletedAt),
+  // Finds the copies closeMonth already made
+  index("notes_carried_from_note_idx").on(table.carriedFromNoteId),
+  // Series still waiting for their next occurrence (see spawnDueOccurrences)
+  index("notes_pending_recurrence_idx").on(table.id).where(sql`${table.recurrence} is not null and ${table.nextOccurrenceId} is null`),
+  // notes.search_vector (full-text search) is managed by migrations/0002_notes_search.sql and 0009_notes_body.sql
+]);
+
+// Checklist steps of a note, in position order
+export const noteItems = pgTable("note_items", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  noteId: integer("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  text: text("text").notNull(),
+  done: boolean("done").notNull().default(false),
+  position: integer("position").notNull(),
+}, (table) => [
+  index("note_items_note_position_idx").on(table.noteId, table.position),
+]);
+
+// Progress updates on a note ("liguei para o banco, aguardando retorno"), oldest first
+export const noteComments = pgTable("note_comments", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  noteId: integer("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  // Author; only they can edit or delete the comment
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  // Set on every edit
+  editedAt: timestamp("edited_at"),
+}, (table) => [
+  index("note_comments_note_id_idx").on(table.noteId, table.id),
+]);
+
+// Files attached to a note (boletos, receipts, screenshots); the bytes live in the file store
+// (server/files.ts) under storageKey. Removing an attachment or purging its note only clears
+// note_id, and removeOrphanedAttachments deletes the file and the row afterwards
+export const attachments = pgTable("attachments", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  noteId: integer("note_id").references(() => notes.id, { onDelete: "set null" }),
+  // Owner whose quota the file counts against
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  // Bytes
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("attachments_note_id_idx").on(table.noteId, table.id),
+  index("attachments_user_id_idx").on(table.userId),
+]);
+
+// Accepted uploads; anything else is refused before it reaches the file store
+export const attachmentContentTypes = [
+  "image/png", "image/jpeg", "image/gif", "image/webp", "application/pdf", "text/plain", "text/csv",
+] as const;
+
+// Free-form labels (casa, trabalho, ...); a note can carry several
+export const tags = pgTable("tags", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Hex color used for the chips, e.g. "#3b82f6"
+  color: text("color").notNull(),
+}, (table) => [
+  uniqueIndex("tags_user_name_idx").on(table.userId, table.name),
+]);
+
+// Deleting a tag or purging a note drops its links
+export const noteTags = pgTable("note_tags", {
+  noteId: integer("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.noteId, table.tagId] }),
+  index("note_tags_tag_id_idx").on(table.tagId, table.noteId),
+]);
+
+// One row per create/update/delete/restore, holding the note as it was right after
+// the change. note_id has no foreign key so the history outlives the note.
+export const noteRevisions = pgTable("note_revisions", {
+  id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+  noteId: integer("note_id").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  operation: text("operation").notNull().$type<"create" | "update" | "delete" | "restore">(),
+  snapshot: jsonb("snapshot").notNull().$type<NoteSnapshot>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("note_revisions_note_id_idx").on(table.noteId, table.id),
+]);
 
 export const usersRelations = relations(users, ({ many }) => ({
+  notes: many(notes, { relationName: "creator" }),
+  assignedNotes: many(notes, { relationName: "assignee" }),
+  statuses: many(statuses),
+  tags: many(tags),
+  projects: many(projects),
+  projectMemberships: many(projectMembers),
+  attachments: many(attachments),
+}));
+
+export const statusesRelations = relations(statuses, ({ one, many }) => ({
+  user: one(users, {
+    fields: [statuses.userId],
+    references: [users.id],
+  }),
   notes: many(notes),
 }));
 
-export const notesRelations = relations(notes, ({ one }) => ({
+export const notesRelations = relations(notes, ({ one, many }) => ({
   user: one(users, {
     fields: [notes.userId],
     references: [users.id],
+    relationName: "creator",
+  }),
+  assignee: one(users, {
+    fields: [notes.assigneeId],
+    references: [users.id],
+    relationName: "assignee",
+  }),
+  status: one(statuses, {
+    fields: [notes.statusId],
+    references: [statuses.id],
+  }),
+  project: one(projects, {
+    fields: [notes.projectId],
+    references: [projects.id],
+  }),
+  revisions: many(noteRevisions),
+  noteTags: many(noteTags),
+  items: many(noteItems),
+  attachments: many(attachments),
+  comments: many(noteComments),
+}));
+
+export const noteItemsRelations = relations(noteItems, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteItems.noteId],
+    references: [notes.id],
+  }),
+}));
+
+export const noteCommentsRelations = relations(noteComments, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteComments.noteId],
+    references: [notes.id],
+  }),
+  author: one(users, {
+    fields: [noteComments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  note: one(notes, {
+    fields: [attachments.noteId],
+    references: [notes.id],
+  }),
+  user: one(users, {
+    fields: [attachments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  user: one(users, {
+    fields: [tags.userId],
+    references: [users.id],
+  }),
+  noteTags: many(noteTags),
+}));
+
+export const projectsRelations = relations(projects, ({ one, many }) => ({
+  user: one(users, {
+    fields: [projects.userId],
+    references: [users.id],
+  }),
+  notes: many(notes),
+  members: many(projectMembers),
+  invites: many(projectInvites),
+}));
+
+export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMembers.projectId],
+    references: [projects.id],
+  }),
+  user: one(users, {
+    fields: [projectMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const projectInvitesRelations = relations(projectInvites, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectInvites.projectId],
+    references: [projects.id],
+  }),
+  invitedBy: one(users, {
+    fields: [projectInvites.invitedById],
+    references: [users.id],
+  }),
+}));
+
+export const noteTagsRelations = relations(noteTags, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteTags.noteId],
+    references: [notes.id],
+  }),
+  tag: one(tags, {
+    fields: [noteTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const noteRevisionsRelations = relations(noteRevisions, ({ one }) => ({
+  note: one(notes, {
+    fields: [noteRevisions.noteId],
+    references: [notes.id],
   }),
 }));
 
@@ -41,15 +355,363 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Senha é obrigatória"),
 });
 
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida (use AAAA-MM-DD)");
+const isoMonth = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Mês inválido (use AAAA-MM)");
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Cor inválida (use #RRGGBB)");
+
+export const recurrenceFrequencies = ["daily", "weekly", "monthly", "yearly"] as const;
+
+// Modeled on iCalendar RRULE: FREQ, INTERVAL, BYDAY (0 = Sunday), BYMONTHDAY, BYSETPOS, COUNT, UNTIL.
+// Weekly rules use byWeekday; monthly rules use byMonthDay or one weekday plus bySetPos (-1 = last).
+export const recurrenceSchema = z.object({
+  freq: z.enum(recurrenceFrequencies),
+  interval: z.number().int().min(1).max(99).default(1),
+  byWeekday: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  byMonthDay: z.number().int().min(1).max(31).optional(),
+  bySetPos: z.union([z.literal(-1), z.number().int().min(1).max(4)]).optional(),
+  count: z.number().int().min(1).max(999).optional(),
+  until: isoDate.optional(),
+}).refine((rule) => rule.count === undefined || rule.until === undefined, "Escolha apenas um fim para a repetição");
+
+export const insertStatusSchema = createInsertSchema(statuses, {
+  // An empty name falls back to the label of the code
+  name: z.string().trim().max(40).transform((name) => name || null).nullish(),
+  color: hexColor,
+  order: z.number().int().min(0),
+}).omit({ id: true, userId: true });
+
+export const insertTagSchema = createInsertSchema(tags, {
+  name: z.string().trim().min(1, "Nome da tag é obrigatório").max(40),
+  color: hexColor,
+}).omit({ id: true, userId: true });
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  name: z.string().trim().min(1, "Nome da lista é obrigatório").max(60),
+  color: hexColor,
+}).omit({ id: true, userId: true });
+
+const projectRole = z.enum(projectRoles, { errorMap: () => ({ message: "Papel inválido" }) });
+
+export const projectInviteSchema = z.object({
+  email: z.string().trim().email("Email inválido"),
+  role: projectRole.default("editor"),
+});
+
+export const projectMemberUpdateSchema = z.object({
+  role: projectRole,
+});
+
+export const MAX_NOTE_TAGS = 10;
+
 export const insertNoteSchema = createInsertSchema(notes, {
   title: z.string().min(1, "Nome da tarefa é obrigatório"),
-  status: z.enum(["A Fazer", "Concluída"]),
+  body: z.string().max(20000, "Descrição muito longa").default(""),
+  // Form selects send strings; insertNoteSchemaFor checks it belongs to the user
+  statusId: z.coerce.number({ invalid_type_error: "Status é obrigatório" }).int().positive("Status é obrigatório"),
   createdDate: z.string(),
-  completedDate: z.string().min(1, "Data de conclusão é obrigatória"),
-}).omit({ id: true, userId: true });
+  // An empty date input means "no due date"
+  dueDate: isoDate.or(z.literal("")).nullish().transform((value) => value || null),
+  priority: z.enum(notePriorities, { errorMap: () => ({ message: "Prioridade inválida" }) }).default("medium"),
+  completeWhenChecked: z.boolean().default(false),
+  recurrence: recurrenceSchema.nullish(),
+  // Form selects send strings; "" or null leaves the note outside any list
+  projectId: z.union([z.literal(""), z.coerce.number().int().positive("Lista inválida")]).nullish()
+    .transform((value) => value || null),
+  // Same for the assignee; "" or null leaves the task unassigned
+  assigneeId: z.union([z.literal(""), z.coerce.number().int().positive("Responsável inválido")]).nullish()
+    .transform((value) => value || null),
+}).omit({
+  id: true, userId: true, deletedAt: true, version: true, completedAt: true, occurrence: true, nextOccurrenceId: true,
+  carriedFromMonth: true, carriedFromNoteId: true, position: true,
+}).extend({
+  // Replaces the note's tags; left out on update, the tags stay as they are. Repeated ids count once
+  tagIds: z.array(z.coerce.number().int().positive())
+    .transform((ids) => Array.from(new Set(ids)))
+    .pipe(z.array(z.number()).max(MAX_NOTE_TAGS, `Use no máximo ${MAX_NOTE_TAGS} tags`))
+    .default([]),
+});
+
+export const insertNoteItemSchema = createInsertSchema(noteItems, {
+  text: z.string().trim().min(1, "Descreva o item").max(200, "Item muito longo"),
+}).omit({ id: true, noteId: true, position: true });
+
+export const insertNoteCommentSchema = createInsertSchema(noteComments, {
+  body: z.string().trim().min(1, "Escreva o comentário").max(2000, "Comentário muito longo"),
+}).pick({ body: true });
+
+// The complete list of the note's item ids in the new order
+export const noteItemOrderSchema = z.object({
+  itemIds: z.array(z.number().int().positive()),
+});
+
+// The app is Portuguese-only for now; new locales add their own map
+export const statusCodeLabels: Record<StatusCode, string> = {
+  todo: "A Fazer",
+  done: "Concluída",
+};
+
+export const priorityLabels: Record<NotePriority, string> = {
+  low: "Baixa",
+  medium: "Média",
+  high: "Alta",
+  urgent: "Urgente",
+};
+
+export const projectRoleLabels: Record<ProjectRole, string> = {
+  viewer: "Leitor",
+  editor: "Editor",
+  owner: "Dono",
+};
+
+export function hasProjectRole(role: ProjectRole | undefined, atLeast: ProjectRole): boolean {
+  return role !== undefined && projectRoles.indexOf(role) >= projectRoles.indexOf(atLeast);
+}
+
+export function statusLabel(status: Pick<Status, "name" | "code">): string {
+  return status.name ?? statusCodeLabels[status.code];
+}
+
+// statusId, tagIds, projectId and assigneeId are only known to be valid per user, so routes build the
+// schema from their statuses, tags and projects, and from the people who can see the note
+export function insertNoteSchemaFor(
+  userStatuses: Pick<Status, "id">[],
+  userTags: Pick<Tag, "id">[],
+  userProjects: Pick<Project, "id">[],
+  assignees: Pick<User, "id">[] = [],
+) {
+  const statusIds = new Set(userStatuses.map((status) => status.id));
+  const tagIds = new Set(userTags.map((tag) => tag.id));
+  const projectIds = new Set(userProjects.map((project) => project.id));
+  const assigneeIds = new Set(assignees.map((user) => user.id));
+  return insertNoteSchema.extend({
+    statusId: insertNoteSchema.shape.statusId.refine((id) => statusIds.has(id), "Status inválido"),
+    tagIds: insertNoteSchema.shape.tagIds.refine((ids) => ids.every((id) => tagIds.has(id)), "Tag inválida"),
+    projectId: insertNoteSchema.shape.projectId.refine((id) => id === null || projectIds.has(id), "Lista inválida"),
+    assigneeId: insertNoteSchema.shape.assigneeId.refine(
+      (id) => id === null || assigneeIds.has(id),
+      "O responsável precisa ter acesso à anotação",
+    ),
+  });
+}
+
+// "priority" breaks ties by due date (earliest first, none last) before the id
+export const noteSortFields = ["createdDate", "dueDate", "completedAt", "title", "priority"] as const;
+
+const projectFilter = z.union([z.literal("none"), z.coerce.number().int().positive()]);
+
+export const noteListQuerySchema = z.object({
+  status: z.enum(statusCodes).optional(),
+  statusId: z.coerce.number().int().optional(),
+  // Comma-separated tag ids; notes with any of them match
+  tagIds: z.string()
+    .regex(/^\d+(,\d+)*$/, "Tags inválidas (use ids separados por vírgula)")
+    .transform((value) => value.split(",").map(Number))
+    .optional(),
+  // Notes in one list; "none" for the notes outside every list
+  projectId: projectFilter.optional(),
+  // Only the notes assigned to the current user; without projectId, from every list they can see
+  assignee: z.literal("me").optional(),
+  // Notes whose createdDate falls in the month; combines with createdFrom/createdTo
+  month: isoMonth.optional(),
+  createdFrom: isoDate.optional(),
+  createdTo: isoDate.optional(),
+  dueFrom: isoDate.optional(),
+  dueTo: isoDate.optional(),
+  completedFrom: isoDate.optional(),
+  completedTo: isoDate.optional(),
+  // By the date the calendar shows a note on: its due date, or its note date without one
+  scheduledFrom: isoDate.optional(),
+  scheduledTo: isoDate.optional(),
+  sort: z.enum(noteSortFields).default("createdDate"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  after: z.string().optional(),
+});
+
+// Moves a note into a status column right before beforeId, or to the end of the column when null
+export const noteMoveSchema = z.object({
+  statusId: z.number().int().positive(),
+  beforeId: z.number().int().positive().nullable().default(null),
+});
+
+export function noteMoveSchemaFor(userStatuses: Pick<Status, "id">[]) {
+  const statusIds = new Set(userStatuses.map((status) => status.id));
+  return noteMoveSchema.extend({
+    statusId: noteMoveSchema.shape.statusId.refine((id) => statusIds.has(id), "Status inválido"),
+  });
+}
+
+export const noteBoardQuerySchema = noteListQuerySchema.pick({ month: true, tagIds: true, projectId: true, assignee: true });
+
+export const monthSummaryQuerySchema = z.object({
+  month: isoMonth,
+  projectId: projectFilter.optional(),
+});
+
+// "move" hands the open notes over to the next month; "copy" leaves them and creates copies there
+export const monthCloseModes = ["move", "copy"] as const;
+
+export const monthCloseSchema = z.object({
+  month: isoMonth,
+  mode: z.enum(monthCloseModes).default("move"),
+  // Closes only the notes of one list (or "none"); all of them when left out
+  projectId: projectFilter.optional(),
+});
+
+export const noteSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Informe um termo de busca").max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginUser = z.infer<typeof loginSchema>;
 export type User = typeof users.$inferSelect;
+export type StatusCode = typeof statusCodes[number];
+export type NotePriority = typeof notePriorities[number];
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+export type InsertStatus = z.infer<typeof insertStatusSchema>;
+export type Status = typeof statuses.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+export type ProjectFilter = z.infer<typeof projectFilter>;
+export type ProjectRole = typeof projectRoles[number];
+export type ProjectMemberRow = typeof projectMembers.$inferSelect;
+export type ProjectInviteRow = typeof projectInvites.$inferSelect;
+export type ProjectInviteInput = z.infer<typeof projectInviteSchema>;
+
+// Projects as the API returns them: with the current user's role
+export interface ProjectWithRole extends Project {
+  role: ProjectRole;
+}
+
+// Members and pending invites as the members panel shows them
+export interface ProjectMember extends ProjectMemberRow {
+  user: Pick<User, "id" | "name" | "email">;
+}
+
+export interface ProjectInvite extends ProjectInviteRow {
+  project: Pick<Project, "id" | "name" | "color">;
+  invitedBy: Pick<User, "id" | "name">;
+}
+
 export type InsertNote = z.infer<typeof insertNoteSchema>;
-export type Note = typeof notes.$inferSelect;
+export type NoteRow = typeof notes.$inferSelect;
+export type InsertNoteItem = z.infer<typeof insertNoteItemSchema>;
+export type NoteItem = typeof noteItems.$inferSelect;
+export type InsertNoteComment = z.infer<typeof insertNoteCommentSchema>;
+export type NoteCommentRow = typeof noteComments.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = Pick<Attachment, "fileName" | "contentType" | "size" | "storageKey">;
+
+// Notes as the API returns them: the row plus the code and label of its status, the name of
+// its assignee, its tags by name, its checklist items by position, its attachments by upload order
+// and how many comments it has (the thread itself comes from its own route)
+export interface Note extends NoteRow {
+  status: NoteStatus;
+  assignee: NoteAssignee | null;
+  tags: NoteTag[];
+  items: NoteItem[];
+  attachments: NoteAttachment[];
+  commentCount: number;
+}
+
+// Comments as the API returns them, with the author's name
+export interface NoteComment extends NoteCommentRow {
+  author: Pick<User, "id" | "name">;
+}
+
+export interface NoteStatus {
+  code: StatusCode;
+  label: string;
+}
+
+export type NoteTag = Pick<Tag, "id" | "name" | "color">;
+export type NoteAssignee = Pick<User, "id" | "name">;
+export type NoteAttachment = Pick<Attachment, "id" | "fileName" | "contentType" | "size" | "createdAt">;
+export type NoteSortField = typeof noteSortFields[number];
+export type NoteListQuery = z.infer<typeof noteListQuerySchema>;
+
+export interface NotePage {
+  items: Note[];
+  nextCursor: string | null;
+}
+
+export interface TrashPage {
+  items: Note[];
+  retentionDays: number;
+}
+
+// Series, month and board bookkeeping (occurrence, carriedFrom..., position) is not restorable, so it stays out of
+// revisions; so does the assignee, who may no longer have access to the note when an old revision comes back
+export type NoteSnapshot = Omit<
+  NoteRow,
+  "id" | "userId" | "deletedAt" | "version" | "occurrence" | "nextOccurrenceId" | "carriedFromMonth" | "carriedFromNoteId" | "position"
+  | "assigneeId"
+>;
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+export type InsertNoteRevision = typeof noteRevisions.$inferInsert;
+
+export interface NoteFieldChange {
+  field: keyof NoteSnapshot;
+  from: unknown;
+  to: unknown;
+}
+
+// Revision as returned by the API: changes are relative to the previous revision
+export interface NoteRevisionWithChanges extends NoteRevision {
+  changes: NoteFieldChange[];
+}
+
+export type NoteSearchQuery = z.infer<typeof noteSearchQuerySchema>;
+export type NoteMove = z.infer<typeof noteMoveSchema>;
+export type NoteBoardQuery = z.infer<typeof noteBoardQuerySchema>;
+export type MonthCloseMode = typeof monthCloseModes[number];
+export type MonthClose = z.infer<typeof monthCloseSchema>;
+export type MonthSummaryQuery = z.infer<typeof monthSummaryQuerySchema>;
+
+// Open notes (not in a done status, not in the trash) per list, for the sidebar badges
+export interface ProjectCounts {
+  // Every open note, in a list or not
+  all: number;
+  // Open notes outside every list
+  none: number;
+  byProject: { projectId: number; count: number }[];
+}
+
+// Counts of the active notes created in a month
+export interface MonthSummary {
+  month: string;
+  total: number;
+  open: number;
+  done: number;
+  // Open notes past their due date
+  overdue: number;
+  // Notes brought in when the previous month was closed
+  carriedOver: number;
+  byStatus: { statusId: number; count: number }[];
+}
+
+export interface MonthCloseResult {
+  // The month the notes went to
+  month: string;
+  mode: MonthCloseMode;
+  count: number;
+}
+
+// A piece of the matched text; `match` marks the highlighted terms
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface NoteSearchResult {
+  note: Note;
+  rank: number;
+  // Title with the matched terms highlighted
+  snippet: HighlightSegment[];
+  // Excerpt of the body around the matches; empty when only the title matched
+  bodySnippet: HighlightSegment[];
+}